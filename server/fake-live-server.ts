@@ -0,0 +1,210 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A local stand-in for the Live API that speaks the BidiGenerateContent JSON
+ * protocol. Server messages are scripted with rules so the dual-model flow can
+ * run offline and in CI.
+ *
+ *   npm run fake-live-server -- scenario.json
+ *
+ * then start the app with REACT_APP_LIVE_TRANSPORT_URL=ws://localhost:9081
+ */
+
+import { readFileSync } from "fs";
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+
+export type FakeServerMessage = {
+  setupComplete?: object;
+  serverContent?: object;
+  toolCall?: object;
+  toolCallCancellation?: object;
+  usageMetadata?: object;
+  goAway?: object;
+  sessionResumptionUpdate?: object;
+};
+
+export type FakeClientMessageKind =
+  | "setup"
+  | "clientContent"
+  | "realtimeInput"
+  | "toolResponse";
+
+export type FakeLiveRule = {
+  // the kind of client message that triggers this rule
+  on: FakeClientMessageKind;
+  // only match client content or realtime text containing this string
+  text?: string;
+  // only match tool responses for this function name
+  name?: string;
+  // remove the rule after it fired once
+  once?: boolean;
+  reply: Array<{ delayMs?: number; message: FakeServerMessage }>;
+};
+
+export type ReceivedMessage = {
+  kind: FakeClientMessageKind;
+  message: any;
+};
+
+/**
+ * helpers for scripting the messages the real server sends
+ */
+export const fake = {
+  toolCall: (name: string, args: object = {}, id = `call-${name}`) => ({
+    toolCall: { functionCalls: [{ id, name, args }] },
+  }),
+  modelText: (text: string) => ({
+    serverContent: { modelTurn: { parts: [{ text }] } },
+  }),
+  inputTranscription: (text: string, finished?: boolean) => ({
+    serverContent: { inputTranscription: { text, finished } },
+  }),
+  outputTranscription: (text: string, finished?: boolean) => ({
+    serverContent: { outputTranscription: { text, finished } },
+  }),
+  interrupted: () => ({ serverContent: { interrupted: true } }),
+  turnComplete: () => ({ serverContent: { turnComplete: true } }),
+};
+
+const kindOf = (message: object) =>
+  (["setup", "clientContent", "realtimeInput", "toolResponse"] as const).find(
+    (kind) => kind in message
+  );
+
+function textOf(kind: FakeClientMessageKind, message: any): string {
+  if (kind === "clientContent") {
+    return (message.clientContent.turns || [])
+      .flatMap((turn: any) => turn.parts || [])
+      .map((part: any) => part.text || "")
+      .join("");
+  }
+  if (kind === "realtimeInput") {
+    return message.realtimeInput.text || "";
+  }
+  return "";
+}
+
+export class FakeLiveServer {
+  private server: WebSocketServer | null = null;
+  private sockets = new Set<WebSocket>();
+  public received: ReceivedMessage[] = [];
+
+  constructor(public rules: FakeLiveRule[] = []) {}
+
+  /**
+   * starts listening and resolves with the websocket url, port 0 picks a free one
+   */
+  listen(port = 0): Promise<string> {
+    return new Promise((resolve) => {
+      const server = new WebSocketServer({ port }, () => {
+        const { port } = server.address() as AddressInfo;
+        resolve(`ws://localhost:${port}`);
+      });
+      server.on("connection", (socket) => {
+        this.sockets.add(socket);
+        socket.on("close", () => this.sockets.delete(socket));
+        socket.on("message", (data) => this.onMessage(socket, data.toString()));
+      });
+      this.server = server;
+    });
+  }
+
+  /**
+   * sends a message to every connected client right away
+   */
+  push(message: FakeServerMessage) {
+    this.sockets.forEach((socket) => socket.send(JSON.stringify(message)));
+  }
+
+  /**
+   * drops every connection without a close handshake, like a network failure
+   */
+  dropConnections() {
+    this.sockets.forEach((socket) => socket.terminate());
+  }
+
+  close(): Promise<void> {
+    this.sockets.forEach((socket) => socket.close());
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  private onMessage(socket: WebSocket, data: string) {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch (e) {
+      console.error("[FakeLiveServer] invalid json", data);
+      return;
+    }
+    const kind = kindOf(message);
+    if (!kind) {
+      console.warn("[FakeLiveServer] unknown client message", message);
+      return;
+    }
+    this.received.push({ kind, message });
+
+    if (kind === "setup") {
+      socket.send(JSON.stringify({ setupComplete: {} }));
+    }
+
+    const text = textOf(kind, message);
+    const rule = this.rules.find(
+      (r) =>
+        r.on === kind &&
+        (!r.text || text.includes(r.text)) &&
+        (!r.name ||
+          (message.toolResponse?.functionResponses || []).some(
+            (fr: any) => fr.name === r.name
+          ))
+    );
+    if (!rule) {
+      return;
+    }
+    if (rule.once) {
+      this.rules = this.rules.filter((r) => r !== rule);
+    }
+
+    let delay = 0;
+    rule.reply.forEach(({ delayMs = 0, message }) => {
+      delay += delayMs;
+      setTimeout(() => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify(message));
+        }
+      }, delay);
+    });
+  }
+}
+
+if (require.main === module) {
+  const [scenarioFile] = process.argv.slice(2);
+  const rules: FakeLiveRule[] = scenarioFile
+    ? JSON.parse(readFileSync(scenarioFile, "utf-8"))
+    : [];
+  const port = Number(process.env.PORT || 9081);
+  new FakeLiveServer(rules).listen(port).then((url) => {
+    console.log(`Fake live server listening on ${url} (${rules.length} rules)`);
+  });
+}
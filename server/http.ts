@@ -0,0 +1,92 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IncomingMessage, ServerResponse } from "http";
+
+export type RouteHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: string[]
+) => Promise<void>;
+
+export type Route = {
+  method: string;
+  // matched against the path, capture groups are passed to the handler
+  pattern: RegExp;
+  handler: RouteHandler;
+};
+
+/**
+ * an error with the status code it should be answered with
+ */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+export async function readJson<T = unknown>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString("utf-8");
+  if (!body) {
+    return {} as T;
+  }
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+}
+
+/**
+ * dispatches a request to the first matching route, answering 404 otherwise
+ */
+export function router(routes: Route[]) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    const route = routes.find(
+      (r) => r.method === req.method && r.pattern.test(pathname)
+    );
+    if (!route) {
+      sendJson(res, 404, { error: `No route for ${req.method} ${pathname}` });
+      return;
+    }
+    const params = route.pattern.exec(pathname)!.slice(1);
+    try {
+      await route.handler(req, res, params);
+    } catch (e: unknown) {
+      const status = e instanceof HttpError ? e.status : 500;
+      const message = e instanceof Error ? e.message : undefined;
+      console.error(`[server] ${req.method} ${pathname} failed:`, message);
+      if (!res.headersSent) {
+        sendJson(res, status, { error: message || "Internal error" });
+      } else {
+        res.end();
+      }
+    }
+  };
+}
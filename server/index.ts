@@ -0,0 +1,58 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Backend that owns the Gemini API key so it never ships in the bundle. It
+ * hands out Live API tokens and proxies the media generation calls.
+ *
+ * Neither /api/token nor /media/* authenticate the caller, anyone who can
+ * reach the server can spend the key on the allowed models. Serve it behind
+ * your own auth, e.g. Identity-Aware Proxy on App Engine.
+ *
+ *   GEMINI_API_KEY=... npm run server
+ *
+ * In development the CRA dev server proxies /api and /media to it, see "proxy"
+ * in package.json.
+ */
+
+import { createServer } from "http";
+import { router } from "./http";
+import { mediaRoutes } from "./media";
+import { tokenRoutes } from "./token";
+
+export type ServerOptions = {
+  apiKey: string;
+  // overridable so tests can run against a fake upstream
+  baseUrl?: string;
+  pollIntervalMs?: number;
+};
+
+export function createApp(options: ServerOptions) {
+  return createServer(
+    router([...tokenRoutes(options), ...mediaRoutes(options)])
+  );
+}
+
+if (require.main === module) {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("set GEMINI_API_KEY in the environment");
+  }
+  const port = Number(process.env.PORT || 8080);
+  createApp({ apiKey }).listen(port, () => {
+    console.log(`Server listening on http://localhost:${port}`);
+  });
+}
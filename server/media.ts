@@ -0,0 +1,154 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { Readable } from "stream";
+import { ReadableStream } from "node:stream/web";
+import { HttpError, readJson, Route, sendJson } from "./http";
+import { GEMINI_API_BASE_URL } from "./token";
+
+// the proxy only spends the key on these, whatever the browser asks for
+export const MODEL_VEO = "models/veo-2.0-generate-001";
+export const MODEL_IMAGE = "nano-banana-pro-preview";
+export const MODEL_TTS = "gemini-2.5-flash-preview-tts";
+
+export type MediaOptions = {
+  apiKey: string;
+  // overridable so tests can run against a fake upstream
+  baseUrl?: string;
+  // how often to check on a running video generation
+  pollIntervalMs?: number;
+};
+
+export type VideoRequest = {
+  prompt?: string;
+  image?: { imageBytes: string; mimeType: string };
+};
+
+/**
+ * the id the proxy hands out for a generated video, the name of its file
+ */
+export function videoIdFromUri(uri: string) {
+  const match = /\/files\/([^/:?]+)/.exec(uri);
+  if (!match) {
+    throw new HttpError(502, `Unexpected video URI: ${uri}`);
+  }
+  return match[1];
+}
+
+export function mediaRoutes({
+  apiKey,
+  baseUrl = GEMINI_API_BASE_URL,
+  pollIntervalMs = 10000,
+}: MediaOptions): Route[] {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { baseUrl } });
+
+  const generateContent = async (
+    model: string,
+    text: unknown,
+    config?: { responseModalities: string[] }
+  ) => {
+    if (typeof text !== "string" || !text) {
+      throw new HttpError(400, "Missing text");
+    }
+    return ai.models.generateContent({ model, contents: text, config });
+  };
+
+  return [
+    {
+      method: "POST",
+      pattern: /^\/media\/video$/,
+      handler: async (req, res) => {
+        const { prompt, image } = await readJson<VideoRequest>(req);
+        if (!prompt && !image) {
+          throw new HttpError(400, "Missing prompt or image");
+        }
+        // stop polling once the browser gives up on the job
+        const abort = new AbortController();
+        res.on("close", () => abort.abort());
+        const abortSignal = abort.signal;
+        let operation = await ai.models.generateVideos({
+          model: MODEL_VEO,
+          prompt,
+          image,
+          config: { numberOfVideos: 1, abortSignal },
+        });
+        while (!operation.done) {
+          await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+          if (abortSignal.aborted) {
+            throw new HttpError(499, "Video generation was cancelled");
+          }
+          operation = await ai.operations.getVideosOperation({
+            operation,
+            config: { abortSignal },
+          });
+        }
+        const video = operation.response?.generatedVideos?.[0]?.video;
+        if (!video?.uri) {
+          throw new HttpError(502, "No videos were generated.");
+        }
+        const id = videoIdFromUri(decodeURIComponent(video.uri));
+        sendJson(res, 200, { id, mimeType: video.mimeType });
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/media\/video\/([^/]+)\/content$/,
+      handler: async (req, res, [id]) => {
+        const upstream = await fetch(
+          `${baseUrl}/v1beta/files/${encodeURIComponent(
+            id
+          )}:download?alt=media`,
+          { headers: { "x-goog-api-key": apiKey } }
+        );
+        if (!upstream.ok || !upstream.body) {
+          throw new HttpError(
+            upstream.status === 404 ? 404 : 502,
+            `Failed to download video: ${upstream.status} ${upstream.statusText}`
+          );
+        }
+        res.writeHead(200, {
+          "Content-Type": upstream.headers.get("content-type") || "video/mp4",
+          "Cache-Control": "private, max-age=3600",
+        });
+        // fetch's body is the dom type of the same web stream
+        Readable.fromWeb(upstream.body as ReadableStream<Uint8Array>).pipe(res);
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/media\/image$/,
+      handler: async (req, res) => {
+        const { prompt } = await readJson<{ prompt?: unknown }>(req);
+        sendJson(res, 200, await generateContent(MODEL_IMAGE, prompt));
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/media\/speech$/,
+      handler: async (req, res) => {
+        const { text } = await readJson<{ text?: unknown }>(req);
+        sendJson(
+          res,
+          200,
+          await generateContent(MODEL_TTS, text, {
+            responseModalities: ["AUDIO"],
+          })
+        );
+      },
+    },
+  ];
+}
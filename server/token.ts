@@ -0,0 +1,104 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { HttpError, readJson, Route, sendJson } from "./http";
+
+export const GEMINI_API_BASE_URL = "https://generativelanguage.googleapis.com";
+
+// tokens only open sessions with these, whatever the browser asks for
+export const LIVE_MODELS = ["models/gemini-2.0-flash-exp"];
+
+/**
+ * the BidiGenerateContent setup the session will send, the token is locked to
+ * every field of it
+ */
+export type TokenSetup = { model?: unknown } & Record<string, unknown>;
+
+export type TokenOptions = {
+  apiKey: string;
+  // overridable so tests can run against a fake upstream
+  baseUrl?: string;
+  // how many sessions a token may open
+  uses?: number;
+  ttlMs?: number;
+  // how long the token may be used to start a new session
+  newSessionTtlMs?: number;
+};
+
+/**
+ * mints a short-lived auth token for the Live API that only opens a session
+ * with `setup`
+ */
+export async function createEphemeralToken(
+  {
+    apiKey,
+    baseUrl = GEMINI_API_BASE_URL,
+    uses = 1,
+    ttlMs = 30 * 60 * 1000,
+    newSessionTtlMs = 2 * 60 * 1000,
+  }: TokenOptions,
+  setup: TokenSetup
+): Promise<{
+  token: string;
+  expireTime: string;
+  newSessionExpireTime: string;
+}> {
+  const now = Date.now();
+  const expireTime = new Date(now + ttlMs).toISOString();
+  const newSessionExpireTime = new Date(now + newSessionTtlMs).toISOString();
+  const response = await fetch(`${baseUrl}/v1alpha/auth_tokens`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": apiKey,
+    },
+    body: JSON.stringify({
+      uses,
+      expireTime,
+      newSessionExpireTime,
+      bidiGenerateContentSetup: setup,
+      fieldMask: Object.keys(setup).join(","),
+    }),
+  });
+  if (!response.ok) {
+    throw new HttpError(
+      502,
+      `Token request failed: ${response.status} ${response.statusText}`
+    );
+  }
+  const { name } = await response.json();
+  return { token: name, expireTime, newSessionExpireTime };
+}
+
+export function tokenRoutes(options: TokenOptions): Route[] {
+  return [
+    {
+      method: "POST",
+      pattern: /^\/api\/token$/,
+      handler: async (req, res) => {
+        const { setup } = await readJson<{ setup?: TokenSetup }>(req);
+        if (
+          typeof setup !== "object" ||
+          setup === null ||
+          !LIVE_MODELS.includes(setup.model as string)
+        ) {
+          throw new HttpError(400, "A setup for a supported model is required");
+        }
+        sendJson(res, 200, await createEphemeralToken(options, setup));
+      },
+    },
+  ];
+}
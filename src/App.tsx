@@ -16,40 +16,113 @@
 
 import { useRef, useState } from "react";
 import "./App.scss";
-import { LiveAPIProvider } from "./contexts/LiveAPIContext";
-import { FunctionAPIProvider } from "./contexts/FunctionAPIContext";
+import { SessionManagerProvider } from "./contexts/SessionManagerContext";
+import { SessionDefinition } from "./hooks/use-session-manager";
 import SidePanel from "./components/side-panel/SidePanel";
 import { Altair } from "./components/altair/Altair";
 import ControlTray from "./components/control-tray/ControlTray";
 import cn from "classnames";
 import { LiveClientOptions } from "./types";
+import { WebSocketTransport } from "./lib/websocket-transport";
+import { TokenProvider } from "./lib/token-provider";
+import { MediaAuth } from "./lib/media-client";
+import { useArchitectureStore } from "./lib/store-architecture";
+import { DuckingOptions } from "./lib/mic-ducking";
+import { ToolRegistry } from "./lib/tool-registry";
+import { syncWebhookTools } from "./lib/store-webhook-tools";
+import { ToolRegistryProvider } from "./contexts/ToolRegistryContext";
+import { defaultTools } from "./components/altair/tools";
 
-const API_KEY = process.env.REACT_APP_GEMINI_API_KEY as string;
-if (typeof API_KEY !== "string") {
-  throw new Error("set REACT_APP_GEMINI_API_KEY in .env");
+// prefer short-lived tokens from our token server, see server/token.ts
+const TOKEN_URL = process.env.REACT_APP_TOKEN_URL;
+const API_KEY = process.env.REACT_APP_GEMINI_API_KEY;
+if (!TOKEN_URL && typeof API_KEY !== "string") {
+  throw new Error(
+    "set REACT_APP_TOKEN_URL or REACT_APP_GEMINI_API_KEY in .env"
+  );
+}
+
+const tokenProvider = TOKEN_URL ? new TokenProvider({ url: TOKEN_URL }) : null;
+
+// generate media through our backend, see server/media.ts. Live API tokens
+// can't call the media models, so token mode needs it.
+const MEDIA_PROXY_URL = process.env.REACT_APP_MEDIA_PROXY_URL;
+if (TOKEN_URL && !MEDIA_PROXY_URL) {
+  throw new Error(
+    "set REACT_APP_MEDIA_PROXY_URL along with REACT_APP_TOKEN_URL"
+  );
 }
+const mediaAuth: MediaAuth = MEDIA_PROXY_URL
+  ? { proxyUrl: MEDIA_PROXY_URL }
+  : API_KEY!;
+
+// point both sessions at a local stand-in, see server/fake-live-server.ts
+const LIVE_TRANSPORT_URL = process.env.REACT_APP_LIVE_TRANSPORT_URL;
 
 const apiOptions: LiveClientOptions = {
-  apiKey: API_KEY,
+  apiKey: tokenProvider ? undefined : API_KEY,
+  tokenProvider: tokenProvider || undefined,
+  seamlessHandover: true,
+  transport: LIVE_TRANSPORT_URL
+    ? new WebSocketTransport({ url: LIVE_TRANSPORT_URL })
+    : undefined,
 };
 
+// the speaker talks with the child, the tool-caller generates the media
+const splitSessions: SessionDefinition[] = [
+  { name: "speaking", role: "speaker" },
+  { name: "function", role: "tool-caller" },
+];
+
+// one model talks and calls the tools itself
+const singleSessions: SessionDefinition[] = [
+  { name: "single", label: "Live", role: "speaker" },
+];
+
+// what the models can call, add your own tools here
+const toolRegistry = new ToolRegistry(defaultTools);
+// plus the ones defined in the settings dialog
+syncWebhookTools(toolRegistry);
+
+// tools to stub from the start, e.g. in offline CI: a comma separated list of
+// tool names, or "*" for every tool with sample media
+const TOOL_STUBS = process.env.REACT_APP_TOOL_STUBS;
+if (TOOL_STUBS) {
+  const names = TOOL_STUBS.split(",").map((name) => name.trim());
+  toolRegistry.tools
+    .filter(({ declaration, sample }) =>
+      names.includes("*") ? sample : names.includes(declaration.name!)
+    )
+    .forEach(({ declaration, sample }) =>
+      toolRegistry.setStub(declaration.name!, {
+        mode: sample ? "sample" : "response",
+        delayMs: 0,
+      })
+    );
+}
+
+// turn the mic down while the model talks, a loud child still gets through
+const micDucking: DuckingOptions = { mode: "attenuate" };
+
 function App() {
   // this video reference is used for displaying the active stream, whether that is the webcam or screen capture
   // feel free to style as you see fit
   const videoRef = useRef<HTMLVideoElement>(null);
   // either the screen capture, the video or null, if null we hide it
   const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+  const architecture = useArchitectureStore((state) => state.architecture);
+  const sessions = architecture === "single" ? singleSessions : splitSessions;
 
   return (
     <div className="App">
-      <LiveAPIProvider options={apiOptions}>
-        <FunctionAPIProvider options={apiOptions}>
+      <SessionManagerProvider options={apiOptions} sessions={sessions}>
+        <ToolRegistryProvider registry={toolRegistry}>
           <div className="streaming-console">
             <SidePanel />
             <main>
               <div className="main-app-area">
                 {/* APP goes here */}
-                <Altair />
+                <Altair mediaAuth={mediaAuth} />
                 <video
                   className={cn("stream", {
                     hidden: !videoRef.current || !videoStream,
@@ -65,13 +138,14 @@ function App() {
                 supportsVideo={true}
                 onVideoStreamChange={setVideoStream}
                 enableEditingSettings={true}
+                ducking={micDucking}
               >
                 {/* put your own buttons here */}
               </ControlTray>
             </main>
           </div>
-        </FunctionAPIProvider>
-      </LiveAPIProvider>
+        </ToolRegistryProvider>
+      </SessionManagerProvider>
     </div>
   );
 }
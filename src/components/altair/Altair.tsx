@@ -13,282 +13,115 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import { useEffect, useRef, useState, memo, useCallback } from "react";
-import vegaEmbed from "vega-embed";
-import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
-import { useFunctionAPIContext } from "../../contexts/FunctionAPIContext";
+import { Fragment, useEffect, useRef, memo, useMemo } from "react";
 import {
-  FunctionDeclaration,
+  useSessionByRole,
+  useToolSession,
+} from "../../contexts/SessionManagerContext";
+import { useToolRegistry } from "../../contexts/ToolRegistryContext";
+import {
+  FunctionCall,
   LiveServerToolCall,
+  LiveServerToolCallCancellation,
   Modality,
-  Type,
+  Tool,
 } from "@google/genai";
-import { MediaClient } from "../../lib/media-client";
+import { MediaAuth, MediaClient, MediaUsage } from "../../lib/media-client";
+import { Orchestrator } from "../../lib/orchestrator";
+import { useLoggerStore } from "../../lib/store-logger";
+import {
+  RequestStatus,
+  ToolRequest,
+  useToolRequestsStore,
+} from "../../lib/store-tool-requests";
+import { useUsageStore } from "../../lib/store-usage";
+import {
+  FunctionResponseScheduling,
+  LiveFunctionResponse,
+} from "../../types";
 import "./altair.scss";
 
-const declaration: FunctionDeclaration = {
-  name: "render_altair",
-  description: "Displays an altair graph in json format.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      json_graph: {
-        type: Type.STRING,
-        description:
-          "JSON STRING representation of the graph to render. Must be a string, not a json object",
-      },
-    },
-    required: ["json_graph"],
-  },
-};
-
-// 1) Generate a cartoon / explainer VIDEO from text (optionally using an image as first frame)
-const generateVideoDeclaration: FunctionDeclaration = {
-  name: "generate_video",
-  description:
-    "Generates a short, kid-friendly explainer or cartoon video using the Veo 3.1 model based on a text prompt. Can optionally use an image as a starting frame.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      prompt: {
-        type: Type.STRING,
-        description:
-          "A clear, detailed text prompt describing the video to generate. Mention that it should be simple, colorful, and easy for children to understand.",
-      },
-      imageBase64: {
-        type: Type.STRING,
-        description:
-          "Optional base64-encoded image to use as a starting frame for the video (for example, a previously generated explainer image). Should include the data URI prefix (e.g., 'data:image/jpeg;base64,...').",
-      },
-    },
-    required: ["prompt"],
-  },
-};
-
-// 2) IMAGE GENERATION
-const generateImageDeclaration: FunctionDeclaration = {
-  name: "generate_image",
-  description:
-    "Generates one or more kid-friendly images based on a text prompt. Use this for explanation pictures (e.g., why the sky is blue), still frames of a favorite toy, or simple cartoon scenes.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      prompt: {
-        type: Type.STRING,
-        description:
-          "A clear, detailed text prompt describing the image(s) to generate. Mention that the style should be simple, colorful, and easy for children to understand.",
-      },
-    },
-    required: ["prompt"],
-  },
-};
-
-const generateSpeechDeclaration: FunctionDeclaration = {
-  name: "generate_speech",
-  description: "Generates speech audio from text using the Google TTS model.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      text: {
-        type: Type.STRING,
-        description: "The text to convert to speech.",
-      },
-    },
-    required: ["text"],
-  },
-};
-
-// 3) Generate a VIDEO based on what the child is showing on the webcam (toy, Lego, etc.)
-const generateVideoFromWebcamDeclaration: FunctionDeclaration = {
-  name: "generate_video_from_webcam",
-  description:
-    "Captures the current frame from the webcam feed and generates a kid-friendly video using the Veo model with the provided prompt. Use this when the child asks to make a cartoon about what they are currently showing in the camera (for example, their favorite toy or a Lego tower).",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      prompt: {
-        type: Type.STRING,
-        description:
-          "A text prompt describing what video to generate based on the webcam frame, including how the shown object should move or act in the cartoon or explainer.",
-      },
-    },
-    required: ["prompt"],
-  },
-};
-
-// 4) Show the latest generated media (image or video)
-const showMediaDeclaration: FunctionDeclaration = {
-  name: "show_media",
-  description:
-    "Shows the most recently generated video or image on the screen. Use this after generating media when you want to display it to the child.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      mediaType: {
-        type: Type.STRING,
-        description: "The type of media to show: 'video' or 'image'. Call it right after the media is generated.",
-      },
-    },
-    required: ["mediaType"],
-  },
-};
-
-// 5) Hide whatever is currently displayed
-const hideMediaDeclaration: FunctionDeclaration = {
-  name: "hide_media",
-  description:
-    "Hides the currently displayed video or image from the screen.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {},
-    required: [],
-  },
-};
+// appended to the speaking model's instructions when it is the only model
+const SINGLE_MODEL_INSTRUCTIONS = `In this setup there are no other systems: you call the functions yourself, without stopping to talk.
+- The child asks a question like "Why is the sky blue?" → call generate_image with a relevant prompt, then show_media
+- The child asks for a cartoon/video → call generate_video, then show_media
+- The child wants a cartoon of what they show on the webcam → call generate_video_from_webcam, then show_media
+- The child asks to hide the picture → call hide_media
+Making media takes a while: the first answer to generate_image and generate_video only says "accepted". Keep explaining, and call show_media once the answer with status "ready" arrives, never before.`;
 
-type RequestStatus = "pending" | "ready" | "error";
+// Veo takes minutes, remind the speaking model it is still coming
+const VIDEO_PROGRESS_INTERVAL_MS = 30000;
 
-type RequestState = {
-  status: RequestStatus;
-  result?: any;
-  error?: string;
+// a non-blocking call that was accepted and still owes its result
+type DeferredCall = {
+  name: string;
   requestId: string;
+  scheduling: FunctionResponseScheduling;
 };
 
-type MediaDisplay = {
-  type: "video" | "image";
-  url: string; // Blob URL for video or data URI for image
-  visible: boolean;
+export type AltairProps = {
+  // credentials for media generation, never put in URLs
+  mediaAuth: MediaAuth;
 };
 
-/**
- * Downloads a video from the given URI and returns a blob URL for playback
- */
-async function downloadVideoAsBlob(uri: string, apiKey: string): Promise<string> {
-  const url = `${uri}&key=${apiKey}`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to download video: ${response.status} ${response.statusText}`);
-  }
-  const blob = await response.blob();
-  return URL.createObjectURL(blob);
-}
-
-/**
- * Parses the nano banana image response and extracts the base64 image data
- */
-function parseImageResponse(response: any): string | null {
-  try {
-    let data = response;
-    
-    if (typeof response?.result === 'string') {
-      data = JSON.parse(response.result);
-    } else if (response?.response?.candidates) {
-      data = response.response;
-    } else if (response?.candidates) {
-      data = response;
-    }
-    
-    const candidates = data?.candidates;
-    if (!candidates || candidates.length === 0) {
-      console.warn('No candidates in image response');
-      return null;
-    }
-    
-    const parts = candidates[0]?.content?.parts;
-    if (!parts || parts.length === 0) {
-      console.warn('No parts in image response');
-      return null;
-    }
-    
-    const inlineData = parts[0]?.inlineData;
-    if (!inlineData?.data || !inlineData?.mimeType) {
-      console.warn('No inline data in image response');
-      return null;
-    }
-    
-    return `data:${inlineData.mimeType};base64,${inlineData.data}`;
-  } catch (error) {
-    console.error('Error parsing image response:', error);
-    return null;
-  }
-}
-
-/**
- * Captures a frame from the webcam video element and returns it as a base64 data URI
- */
-function captureFrameFromWebcam(): string | null {
-  const videoElement = document.querySelector(
-    'video.stream'
-  ) as HTMLVideoElement | null;
-
-  if (!videoElement) {
-    console.warn("No video element found for webcam capture");
-    return null;
-  }
-
-  if (
-    videoElement.readyState < 2 ||
-    videoElement.videoWidth === 0 ||
-    videoElement.videoHeight === 0
-  ) {
-    console.warn("Video element is not ready for capture");
-    return null;
-  }
-
-  const canvas = document.createElement("canvas");
-  canvas.width = videoElement.videoWidth;
-  canvas.height = videoElement.videoHeight;
-  const ctx = canvas.getContext("2d");
-
-  if (!ctx) {
-    console.warn("Could not get canvas context");
-    return null;
-  }
-
-  ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
-  const dataURI = canvas.toDataURL("image/jpeg", 1.0);
-  return dataURI;
-}
-
-function AltairComponent() {
-  const [jsonString, setJSONString] = useState<string>("");
-  
+function AltairComponent({ mediaAuth }: AltairProps) {
   // Speaking model - handles conversation with audio output
-  const { client: speakingClient, setConfig: setSpeakingConfig, setModel: setSpeakingModel } = useLiveAPIContext();
-  
+  const {
+    client: speakingClient,
+    setConfig: setSpeakingConfig,
+    setModel: setSpeakingModel,
+  } = useSessionByRole("speaker");
+
   // Function model - handles function calling (no audio output)
-  const { client: functionClient, setConfig: setFunctionConfig, setModel: setFunctionModel } = useFunctionAPIContext();
-  
-  const [requestStates, setRequestStates] = useState<Map<string, RequestState>>(
-    new Map()
+  const {
+    client: functionClient,
+    setConfig: setFunctionConfig,
+    setModel: setFunctionModel,
+  } = useToolSession();
+
+  // single-model mode: the speaking model calls the functions itself
+  const singleModel = functionClient === speakingClient;
+
+  // the tools both configs and the tool call handling are generated from
+  const { registry, tools } = useToolRegistry();
+  const functionTools: Tool[] = useMemo(
+    () => [
+      { googleSearch: {} },
+      { functionDeclarations: tools.map(({ declaration }) => declaration) },
+    ],
+    [tools]
   );
+
   const mediaClientRef = useRef<MediaClient | null>(null);
-  
-  // State for displaying generated media
-  const [mediaDisplay, setMediaDisplay] = useState<MediaDisplay | null>(null);
-  const [lastGeneratedVideo, setLastGeneratedVideo] = useState<{ uri: string; blobUrl?: string } | null>(null);
-  const [lastGeneratedImage, setLastGeneratedImage] = useState<string | null>(null);
-  const [isLoadingMedia, setIsLoadingMedia] = useState(false);
-  
-  // Track if media generation is in progress
-  const [isGeneratingMedia, setIsGeneratingMedia] = useState(false);
-  const [generatingMediaType, setGeneratingMediaType] = useState<"image" | "video" | null>(null);
-
-  // Notify the speaking model about events (media ready, etc.)
-  const notifySpeakingModel = useCallback((message: string) => {
-    console.log("[Notify Speaking Model]:", message);
-    // Send a text message to the speaking model so it knows what happened
-    speakingClient.send({ text: `[SYSTEM NOTIFICATION]: ${message}` }, false);
-  }, [speakingClient]);
+  // in-flight tool calls by function call id, aborted when the call is cancelled
+  const toolJobsRef = useRef<Map<string, AbortController>>(new Map());
+  // accepted non-blocking calls by function call id
+  const deferredCallsRef = useRef<Map<string, DeferredCall>>(new Map());
+  const recordUsage = useUsageStore((state) => state.record);
+  const log = useLoggerStore((state) => state.log);
+
+  // Tell the speaking model about tool events (media ready, etc.)
+  const orchestrator = useMemo(
+    () =>
+      new Orchestrator({
+        send: (parts) => speakingClient.send(parts, false),
+      }),
+    [speakingClient]
+  );
+  useEffect(() => () => orchestrator.cancel(), [orchestrator]);
 
   // Configure the SPEAKING model (audio output, no function declarations)
   useEffect(() => {
     setSpeakingModel("models/gemini-2.0-flash-exp");
-    setSpeakingConfig({
+    // the tools are kept up to date by the effect below
+    setSpeakingConfig(({ tools }) => ({
       responseModalities: [Modality.AUDIO],
       speechConfig: {
         voiceConfig: { prebuiltVoiceConfig: { voiceName: "Aoede" } },
       },
+      // transcribe both sides so parents can read the conversation
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
       systemInstruction: {
         parts: [
           {
@@ -300,7 +133,7 @@ IMPORTANT RULES:
 1. WAIT for the child to ask a question or say something before responding
 2. When the child asks a question, start explaining it in great detail. Talk for at least 2-3 minutes continuously.
 3. Use a warm, excited tone. Say things like "Oh, what a wonderful question! Let me tell you all about..."
-4. You will receive SYSTEM NOTIFICATIONS about media (images, videos) being generated or displayed. When you see these notifications, naturally incorporate them into your conversation, like "Oh look! The picture is ready! Can you see it on the screen?"
+4. ${orchestrator.instructions()} For example: "Oh look! The picture is ready! Can you see it on the screen?"
 5. NEVER stop talking while waiting for something. Keep explaining, telling related stories, or asking the child questions.
 6. If you're notified that a cartoon/image is ready, get excited and describe what might be in it while the child looks at it.
 
@@ -308,23 +141,35 @@ Example flow:
 - [WAIT for the child to speak first]
 - Child asks: "Why is the sky blue?"
 - You start: "Oh, what a wonderful question! The sky is blue because of something magical called light scattering! You see, sunlight looks white, but it's actually made of ALL the colors of the rainbow mixed together! When sunlight enters our atmosphere..."
-- [You receive notification: Image is being generated]
+- [You receive a context message: the image is being made]
 - You continue: "...and guess what? I'm making a special picture for you right now to help explain this! While it's being created, let me tell you more about how this works..."
-- [You receive notification: Image is ready and displayed]
+- [You receive a context message: the image is shown]
 - You say: "Oh wonderful! Look at the screen! Can you see the picture? It shows how the light bounces around in our atmosphere..."
 
 Remember: WAIT for the child to speak first, then keep talking and explaining. Other systems handle the image/video generation - you just talk!`,
           },
+          ...(singleModel ? [{ text: SINGLE_MODEL_INSTRUCTIONS }] : []),
         ],
       },
-      // NO tools for the speaking model - it just talks
-    });
-  }, [setSpeakingConfig, setSpeakingModel]);
+      tools,
+    }));
+  }, [setSpeakingConfig, setSpeakingModel, orchestrator, singleModel]);
+
+  // NO tools for the speaking model - it just talks, unless it is the only one.
+  // Only the tools change, so settings made meanwhile are kept.
+  const speakingTools = singleModel ? functionTools : undefined;
+  useEffect(() => {
+    setSpeakingConfig((config) => ({ ...config, tools: speakingTools }));
+  }, [setSpeakingConfig, speakingTools]);
 
   // Configure the FUNCTION model (text output, all function declarations)
   useEffect(() => {
+    if (singleModel) {
+      return;
+    }
     setFunctionModel("models/gemini-2.0-flash-exp");
-    setFunctionConfig({
+    // the tools are kept up to date by the effect below
+    setFunctionConfig(({ tools }) => ({
       responseModalities: [Modality.TEXT], // TEXT only, no audio
       systemInstruction: {
         parts: [
@@ -344,6 +189,8 @@ WHEN TO ACT:
 - Child asks to see something on webcam → Call generate_video_from_webcam, then show_media
 - Child asks to hide the picture → Call hide_media
 
+Making media takes a while: the first answer to generate_image and generate_video only says "accepted". Call show_media once the answer with status "ready" arrives, never before.
+
 WHEN TO DO NOTHING:
 - Connection just started (WAIT for the child to speak)
 - Only background noise or unclear audio
@@ -354,432 +201,258 @@ Remember: Be PATIENT. Wait for a CLEAR question or request before calling any fu
           },
         ],
       },
-      tools: [
-        { googleSearch: {} },
-        {
-          functionDeclarations: [
-            declaration,
-            generateVideoDeclaration,
-            generateImageDeclaration,
-            generateSpeechDeclaration,
-            generateVideoFromWebcamDeclaration,
-            showMediaDeclaration,
-            hideMediaDeclaration,
-          ],
-        },
-      ],
-    });
-  }, [setFunctionConfig, setFunctionModel]);
+      tools,
+    }));
+  }, [setFunctionConfig, setFunctionModel, singleModel]);
+
+  // a changed registry only replaces the declarations
+  useEffect(() => {
+    if (!singleModel) {
+      setFunctionConfig((config) => ({ ...config, tools: functionTools }));
+    }
+  }, [setFunctionConfig, singleModel, functionTools]);
 
   // Initialize MediaClient
   useEffect(() => {
-    const API_KEY = process.env.REACT_APP_GEMINI_API_KEY as string;
-    if (API_KEY && !mediaClientRef.current) {
-      mediaClientRef.current = new MediaClient(API_KEY);
+    if (mediaAuth && !mediaClientRef.current) {
+      mediaClientRef.current = new MediaClient(mediaAuth);
+    }
+  }, [mediaAuth]);
+
+  // Meter every media generation call
+  useEffect(() => {
+    const mediaClient = mediaClientRef.current;
+    if (!mediaClient) {
+      return;
     }
-  }, []);
+    const onUsage = ({ model, usageMetadata, videoSeconds }: MediaUsage) =>
+      recordUsage("media", model, usageMetadata, videoSeconds);
+    mediaClient.on("usage", onUsage);
+    return () => {
+      mediaClient.off("usage", onUsage);
+    };
+  }, [recordUsage]);
 
   // Handle tool calls from the FUNCTION model
   useEffect(() => {
-    const onToolCall = async (toolCall: LiveServerToolCall) => {
-      if (!toolCall.functionCalls) {
+    const { start, update, respond: record } = useToolRequestsStore.getState();
+
+    // Send a response back to the FUNCTION model and keep it for the inspector
+    const send = (requestId: string, response: LiveFunctionResponse) => {
+      functionClient.sendToolResponse({ functionResponses: [response] });
+      record(requestId, response);
+    };
+
+    // the final response, none for calls the server cancelled
+    const respond = (requestId: string, response: LiveFunctionResponse | null) => {
+      if (!response) {
         return;
       }
+      const deferred = deferredCallsRef.current.get(response.id!);
+      if (deferred) {
+        deferredCallsRef.current.delete(response.id!);
+        response = { ...response, scheduling: deferred.scheduling };
+      }
+      send(requestId, response);
+    };
 
-      // Handle render_altair
-      const altairFc = toolCall.functionCalls.find(
-        (fc) => fc.name === declaration.name
-      );
-      if (altairFc) {
-        const str = (altairFc.args as any).json_graph;
-        setJSONString(str);
+    const finish = (requestId: string, changes: Partial<ToolRequest>) =>
+      update(requestId, { ...changes, finishedAt: new Date(), cancel: undefined });
+
+    // `retried` calls were already answered, they get no accepted response
+    const handleCall = async (fc: FunctionCall, requestId: string, retried = false): Promise<LiveFunctionResponse | null> => {
+      const id = fc.id!;
+      const name = fc.name!;
+      const args = fc.args || {};
+      const job = new AbortController();
+      let cancelledHere = false;
+      start({
+        requestId,
+        id,
+        name,
+        args,
+        status: "pending",
+        startedAt: new Date(),
+        responses: [],
+        retried,
+        cancel: () => {
+          cancelledHere = true;
+          job.abort();
+        },
+      });
+
+      // refuse calls that don't match the declaration, and tell the
+      // model what to fix
+      const violations = registry.validate(name, args);
+      if (violations.length) {
+        log({
+          date: new Date(),
+          type: "tools.invalid-call",
+          message: { toolValidation: { id, name, args, violations } },
+        });
+        finish(requestId, { status: "error", error: violations.join("; ") });
+        return {
+          response: {
+            output: {
+              status: "error" as RequestStatus,
+              requestId,
+              error: "Invalid arguments",
+              violations,
+              message: "Fix the arguments and call the function again.",
+            },
+          },
+          id,
+          name,
+        };
+      }
+      const { media, scheduling } = registry.get(name)!;
+
+      // non-blocking tools are accepted right away, the result follows
+      if (scheduling && !retried) {
+        deferredCallsRef.current.set(id, { name, requestId, scheduling });
+        send(requestId, {
+          response: {
+            output: {
+              status: "accepted",
+              requestId,
+              message: "Working on it, the result will follow.",
+            },
+          },
+          id,
+          name,
+          willContinue: true,
+        });
       }
 
-      // Process all function calls
-      const functionResponses = await Promise.all(
-        toolCall.functionCalls
-          .filter((fc) => fc.id)
-          .map(async (fc) => {
-            // Handle render_altair - immediate response
-            if (fc.name === declaration.name) {
-              return {
-                response: { output: { success: true } },
-                id: fc.id!,
-                name: fc.name,
-              };
-            }
-
-            // Handle show_media
-            if (fc.name === showMediaDeclaration.name) {
-              const mediaType = (fc.args as any).mediaType as "video" | "image";
-              const API_KEY = process.env.REACT_APP_GEMINI_API_KEY as string;
-              
-              try {
-                if (mediaType === "video" && lastGeneratedVideo) {
-                  setIsLoadingMedia(true);
-                  
-                  let blobUrl = lastGeneratedVideo.blobUrl;
-                  if (!blobUrl) {
-                    blobUrl = await downloadVideoAsBlob(lastGeneratedVideo.uri, API_KEY);
-                    setLastGeneratedVideo({ ...lastGeneratedVideo, blobUrl });
-                  }
-                  
-                  setMediaDisplay({
-                    type: "video",
-                    url: blobUrl,
-                    visible: true,
-                  });
-                  setIsLoadingMedia(false);
-                  
-                  // Notify speaking model
-                  notifySpeakingModel("The cartoon video is now displayed on screen! Describe it to the child and ask if they like it.");
-                  
-                  return {
-                    response: { output: { success: true, message: "Video is now displayed on screen." } },
-                    id: fc.id!,
-                    name: fc.name,
-                  };
-                } else if (mediaType === "image" && lastGeneratedImage) {
-                  setMediaDisplay({
-                    type: "image",
-                    url: lastGeneratedImage,
-                    visible: true,
-                  });
-                  
-                  // Notify speaking model
-                  notifySpeakingModel("The picture is now displayed on screen! Describe it to the child and continue explaining.");
-                  
-                  return {
-                    response: { output: { success: true, message: "Image is now displayed on screen." } },
-                    id: fc.id!,
-                    name: fc.name,
-                  };
-                } else {
-                  return {
-                    response: { output: { success: false, error: `No ${mediaType} has been generated yet.` } },
-                    id: fc.id!,
-                    name: fc.name,
-                  };
-                }
-              } catch (error: any) {
-                setIsLoadingMedia(false);
-                return {
-                  response: { output: { success: false, error: error?.message || "Failed to show media" } },
-                  id: fc.id!,
-                  name: fc.name,
-                };
-              }
-            }
-
-            // Handle hide_media
-            if (fc.name === hideMediaDeclaration.name) {
-              setMediaDisplay(null);
-              notifySpeakingModel("The media has been hidden from the screen.");
-              return {
-                response: { output: { success: true, message: "Media has been hidden from screen." } },
-                id: fc.id!,
-                name: fc.name,
-              };
-            }
-
-            // For media client calls, track state and process async
-            const requestId = `${fc.name}_${fc.id}_${Date.now()}`;
-            
-            setRequestStates((prev) => {
-              const newMap = new Map(prev);
-              newMap.set(requestId, {
-                status: "pending",
+      toolJobsRef.current.set(id, job);
+      if (media) {
+        orchestrator.notify({ type: "started", tool: name, requestId, media });
+      }
+      // keep the speaking model posted while a video renders
+      const progress =
+        media === "video"
+          ? window.setInterval(
+              () => orchestrator.notify({ type: "progress", tool: name, requestId, media }),
+              VIDEO_PROGRESS_INTERVAL_MS
+            )
+          : undefined;
+      try {
+        const output = await registry.run(name, args, {
+          id,
+          requestId,
+          signal: job.signal,
+          mediaClient: mediaClientRef.current,
+          notify: (event) => orchestrator.notify({ ...event, tool: name, requestId }),
+          inspect: (result) => update(requestId, { result }),
+        });
+
+        finish(requestId, { status: "ready" });
+        if (media) {
+          orchestrator.notify({ type: "ready", tool: name, requestId, media });
+        }
+        return { response: { output }, id, name };
+      } catch (error: any) {
+        if (job.signal.aborted) {
+          finish(requestId, { status: "cancelled" });
+          orchestrator.notify({ type: "cancelled", tool: name, requestId, media });
+          // the server cancelled the call, it expects no response
+          if (!cancelledHere) {
+            return null;
+          }
+          return {
+            response: {
+              output: {
+                status: "cancelled" as RequestStatus,
                 requestId,
-              });
-              return newMap;
-            });
-
-            // Process async operations
-            if (mediaClientRef.current) {
-              try {
-                let result: any;
-                
-                if (fc.name === generateVideoDeclaration.name) {
-                  const prompt = (fc.args as any).prompt;
-                  const imageBase64Arg = (fc.args as any).imageBase64;
-                  
-                  // Notify speaking model that video generation started
-                  setIsGeneratingMedia(true);
-                  setGeneratingMediaType("video");
-                  notifySpeakingModel("I'm now creating a special cartoon video for you! This will take a moment, so let me tell you more while we wait...");
-                  
-                  let imageBase64: string | undefined;
-                  let imageMimeType: string | undefined;
-                  
-                  if (imageBase64Arg) {
-                    if (imageBase64Arg.startsWith("data:")) {
-                      const matches = imageBase64Arg.match(/^data:([^;]+);base64,(.+)$/);
-                      if (matches) {
-                        imageMimeType = matches[1];
-                        imageBase64 = matches[2];
-                      } else {
-                        const commaIndex = imageBase64Arg.indexOf(",");
-                        if (commaIndex > 0) {
-                          const header = imageBase64Arg.substring(0, commaIndex);
-                          const mimeMatch = header.match(/^data:([^;]+)/);
-                          if (mimeMatch) {
-                            imageMimeType = mimeMatch[1];
-                          }
-                          imageBase64 = imageBase64Arg.substring(commaIndex + 1);
-                        }
-                      }
-                    } else {
-                      imageBase64 = imageBase64Arg;
-                      imageMimeType = "image/jpeg";
-                    }
-                  }
-                  
-                  const API_KEY = process.env.REACT_APP_GEMINI_API_KEY as string;
-                  result = await mediaClientRef.current.generateVideo(
-                    prompt,
-                    imageBase64,
-                    imageMimeType,
-                    API_KEY
-                  );
-                  
-                  if (result?.uri) {
-                    console.log("Video generation complete! Video URI:", result.uri);
-                    setLastGeneratedVideo({ uri: result.uri, blobUrl: undefined });
-                    setIsGeneratingMedia(false);
-                    setGeneratingMediaType(null);
-                    notifySpeakingModel("Wonderful news! The cartoon video is ready! Let me show it to you!");
-                  }
-                } else if (fc.name === generateVideoFromWebcamDeclaration.name) {
-                  const prompt = (fc.args as any).prompt;
-                  
-                  setIsGeneratingMedia(true);
-                  setGeneratingMediaType("video");
-                  notifySpeakingModel("I'm creating a special cartoon from what you're showing me! This is so exciting! While we wait, let me tell you about what makes this so cool...");
-                  
-                  const frameDataURI = captureFrameFromWebcam();
-                  
-                  if (!frameDataURI) {
-                    throw new Error(
-                      "Could not capture frame from webcam. Make sure the webcam is active and showing video."
-                    );
-                  }
-                  
-                  let imageBase64: string;
-                  let imageMimeType: string = "image/jpeg";
-                  
-                  if (frameDataURI.startsWith("data:")) {
-                    const matches = frameDataURI.match(/^data:([^;]+);base64,(.+)$/);
-                    if (matches) {
-                      imageMimeType = matches[1];
-                      imageBase64 = matches[2];
-                    } else {
-                      const commaIndex = frameDataURI.indexOf(",");
-                      if (commaIndex > 0) {
-                        const header = frameDataURI.substring(0, commaIndex);
-                        const mimeMatch = header.match(/^data:([^;]+)/);
-                        if (mimeMatch) {
-                          imageMimeType = mimeMatch[1];
-                        }
-                        imageBase64 = frameDataURI.substring(commaIndex + 1);
-                      } else {
-                        throw new Error("Could not parse captured frame data");
-                      }
-                    }
-                  } else {
-                    throw new Error("Invalid frame data format");
-                  }
-                  
-                  const API_KEY = process.env.REACT_APP_GEMINI_API_KEY as string;
-                  result = await mediaClientRef.current.generateVideo(
-                    prompt,
-                    imageBase64,
-                    imageMimeType,
-                    API_KEY
-                  );
-                  
-                  if (result?.uri) {
-                    console.log("Video generation from webcam complete! Video URI:", result.uri);
-                    setLastGeneratedVideo({ uri: result.uri, blobUrl: undefined });
-                    setIsGeneratingMedia(false);
-                    setGeneratingMediaType(null);
-                    notifySpeakingModel("Amazing! Your personalized cartoon is ready! I'm so excited to show you!");
-                  }
-                } else if (fc.name === generateImageDeclaration.name) {
-                  const prompt = (fc.args as any).prompt;
-                  
-                  setIsGeneratingMedia(true);
-                  setGeneratingMediaType("image");
-                  notifySpeakingModel("I'm drawing a special picture for you right now! It'll be ready in just a moment...");
-                  
-                  result = await mediaClientRef.current.generateImage(prompt);
-                  
-                  const imageDataUri = parseImageResponse(result);
-                  if (imageDataUri) {
-                    console.log("Image generation complete!");
-                    setLastGeneratedImage(imageDataUri);
-                    setIsGeneratingMedia(false);
-                    setGeneratingMediaType(null);
-                    notifySpeakingModel("The picture is ready! Let me show it to you!");
-                  }
-                } else if (fc.name === generateSpeechDeclaration.name) {
-                  const text = (fc.args as any).text;
-                  result = await mediaClientRef.current.generateSpeech(text);
-                }
-
-                setRequestStates((prev) => {
-                  const newMap = new Map(prev);
-                  newMap.set(requestId, {
-                    status: "ready",
-                    result,
-                    requestId,
-                  });
-                  return newMap;
-                });
-
-                let message = "Request completed successfully";
-                if (
-                  (fc.name === generateVideoDeclaration.name ||
-                    fc.name === generateVideoFromWebcamDeclaration.name) &&
-                  result?.url
-                ) {
-                  message = `Video generation complete. URL: ${result.url}`;
-                }
-                
-                return {
-                  response: {
-                    output: {
-                      status: "ready" as RequestStatus,
-                      requestId,
-                      message,
-                    },
-                  },
-                  id: fc.id!,
-                  name: fc.name,
-                };
-              } catch (error: any) {
-                setIsGeneratingMedia(false);
-                setGeneratingMediaType(null);
-                
-                setRequestStates((prev) => {
-                  const newMap = new Map(prev);
-                  newMap.set(requestId, {
-                    status: "error",
-                    error: error?.message || "Unknown error",
-                    requestId,
-                  });
-                  return newMap;
-                });
-
-                notifySpeakingModel(`Oops! Something went wrong while creating the media: ${error?.message || "Unknown error"}. But don't worry, let me continue explaining!`);
-
-                return {
-                  response: {
-                    output: {
-                      status: "error" as RequestStatus,
-                      requestId,
-                      error: error?.message || "Unknown error",
-                      message: "Request failed",
-                    },
-                  },
-                  id: fc.id!,
-                  name: fc.name,
-                };
-              }
-            }
-
-            return {
-              response: {
-                output: {
-                  status: "error" as RequestStatus,
-                  requestId,
-                  error: "MediaClient not initialized",
-                  message: "Request failed",
-                },
+                message: "The request was cancelled.",
               },
-              id: fc.id!,
-              name: fc.name,
-            };
-          })
-      );
-
-      // Send responses back to the FUNCTION model
-      functionClient.sendToolResponse({
-        functionResponses,
-      });
+            },
+            id,
+            name,
+          };
+        }
+
+        const message = error?.message || "Unknown error";
+        // failures and timeouts can be run again from the inspector
+        finish(requestId, { status: "error", error: message, retry: () => retry(fc) });
+        orchestrator.notify({ type: "failed", tool: name, requestId, media, error: message });
+
+        return {
+          response: {
+            output: {
+              status: "error" as RequestStatus,
+              requestId,
+              error: message,
+              message: "Request failed",
+            },
+          },
+          id,
+          name,
+        };
+      } finally {
+        clearInterval(progress);
+        toolJobsRef.current.delete(id);
+      }
     };
 
-    functionClient.on("toolcall", onToolCall);
-    return () => {
-      functionClient.off("toolcall", onToolCall);
+    const dispatch = async (fc: FunctionCall) => {
+      const requestId = `${fc.name}_${fc.id}_${Date.now()}`;
+      respond(requestId, await handleCall(fc, requestId));
     };
-  }, [functionClient, lastGeneratedVideo, lastGeneratedImage, notifySpeakingModel]);
 
-  const embedRef = useRef<HTMLDivElement>(null);
+    // the server already has the error response for the call's id, so the
+    // result of running it again reaches the model as a new turn
+    const retry = async (fc: FunctionCall) => {
+      const requestId = `${fc.name}_${fc.id}_${Date.now()}`;
+      const result = await handleCall(fc, requestId, true);
+      if (result) {
+        record(requestId, result);
+        functionClient.send({
+          text: `The ${fc.name} call ${fc.id} was run again: ${JSON.stringify(result.response)}`,
+        });
+      }
+    };
 
-  useEffect(() => {
-    if (embedRef.current && jsonString) {
-      console.log("jsonString", jsonString);
-      vegaEmbed(embedRef.current, JSON.parse(jsonString));
-    }
-  }, [embedRef, jsonString]);
+    // Process all function calls, answering each one as soon as it is done
+    // so quick calls don't wait for a batch-mate's media job
+    const onToolCall = async (toolCall: LiveServerToolCall) => {
+      if (!toolCall.functionCalls) {
+        return;
+      }
+      await Promise.all(toolCall.functionCalls.filter((fc) => fc.id).map(dispatch));
+    };
 
-  // Cleanup blob URLs when component unmounts or media changes
-  useEffect(() => {
+    // stop the jobs of calls the server cancelled, e.g. on an interruption
+    const onToolCallCancellation = ({ ids }: LiveServerToolCallCancellation) =>
+      ids?.forEach((id) => {
+        deferredCallsRef.current.delete(id);
+        toolJobsRef.current.get(id)?.abort();
+      });
+
+    functionClient
+      .on("toolcall", onToolCall)
+      .on("toolcallcancellation", onToolCallCancellation);
     return () => {
-      if (lastGeneratedVideo?.blobUrl) {
-        URL.revokeObjectURL(lastGeneratedVideo.blobUrl);
-      }
+      functionClient
+        .off("toolcall", onToolCall)
+        .off("toolcallcancellation", onToolCallCancellation);
     };
-  }, [lastGeneratedVideo?.blobUrl]);
+  }, [functionClient, registry, orchestrator, log]);
+
+  // tools that share a renderer draw it once
+  const renderers = Array.from(
+    new Set(tools.map(({ Renderer }) => Renderer))
+  );
 
   return (
     <div className="altair-container">
-      <div className="vega-embed" ref={embedRef} />
-      
-      {/* Media Generation Status Indicator */}
-      {isGeneratingMedia && (
-        <div className="media-generating-indicator">
-          <div className="generating-spinner" />
-          <span>Creating {generatingMediaType === "video" ? "cartoon" : "picture"}...</span>
-        </div>
-      )}
-      
-      {/* Media Loading Indicator */}
-      {isLoadingMedia && (
-        <div className="media-loading">
-          <div className="loading-spinner" />
-          <span>Loading media...</span>
-        </div>
-      )}
-      
-      {mediaDisplay && mediaDisplay.visible && (
-        <div className="media-display">
-          <button 
-            className="media-close-btn"
-            onClick={() => setMediaDisplay(null)}
-            title="Close"
-          >
-            ×
-          </button>
-          
-          {mediaDisplay.type === "video" && (
-            <video
-              className="generated-video"
-              src={mediaDisplay.url}
-              controls
-              autoPlay
-              loop
-            />
-          )}
-          
-          {mediaDisplay.type === "image" && (
-            <img
-              className="generated-image"
-              src={mediaDisplay.url}
-              alt="Generated"
-            />
-          )}
-        </div>
+      {renderers.map(
+        (Renderer, i) =>
+          Renderer && (
+            <Fragment key={i}>
+              <Renderer />
+            </Fragment>
+          )
       )}
     </div>
   );
@@ -0,0 +1,348 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Type } from "@google/genai";
+import { GeneratedMedia, useMediaStore } from "../../../lib/store-media";
+import {
+  ToolContext,
+  ToolDefinition,
+  ToolHandler,
+} from "../../../lib/tool-registry";
+import { sampleImage, sampleVideo } from "./samples";
+
+/**
+ * Parses the nano banana image response and extracts the base64 image data
+ */
+function parseImageResponse(response: any): string | null {
+  try {
+    let data = response;
+
+    if (typeof response?.result === "string") {
+      data = JSON.parse(response.result);
+    } else if (response?.response?.candidates) {
+      data = response.response;
+    } else if (response?.candidates) {
+      data = response;
+    }
+
+    const candidates = data?.candidates;
+    if (!candidates || candidates.length === 0) {
+      console.warn("No candidates in image response");
+      return null;
+    }
+
+    const parts = candidates[0]?.content?.parts;
+    if (!parts || parts.length === 0) {
+      console.warn("No parts in image response");
+      return null;
+    }
+
+    const inlineData = parts[0]?.inlineData;
+    if (!inlineData?.data || !inlineData?.mimeType) {
+      console.warn("No inline data in image response");
+      return null;
+    }
+
+    return `data:${inlineData.mimeType};base64,${inlineData.data}`;
+  } catch (error) {
+    console.error("Error parsing image response:", error);
+    return null;
+  }
+}
+
+/**
+ * Splits a data URI into its mime type and base64 data
+ */
+function parseDataUri(dataUri: string) {
+  const matches = dataUri.match(/^data:([^;]+);base64,(.+)$/);
+  if (matches) {
+    return { mimeType: matches[1], data: matches[2] };
+  }
+  const commaIndex = dataUri.indexOf(",");
+  if (!dataUri.startsWith("data:") || commaIndex <= 0) {
+    return null;
+  }
+  const mimeMatch = dataUri.substring(0, commaIndex).match(/^data:([^;]+)/);
+  return {
+    mimeType: mimeMatch ? mimeMatch[1] : "image/jpeg",
+    data: dataUri.substring(commaIndex + 1),
+  };
+}
+
+/**
+ * Captures a frame from the webcam video element and returns it as a base64 data URI
+ */
+function captureFrameFromWebcam(): string | null {
+  const videoElement = document.querySelector(
+    "video.stream"
+  ) as HTMLVideoElement | null;
+
+  if (!videoElement) {
+    console.warn("No video element found for webcam capture");
+    return null;
+  }
+
+  if (
+    videoElement.readyState < 2 ||
+    videoElement.videoWidth === 0 ||
+    videoElement.videoHeight === 0
+  ) {
+    console.warn("Video element is not ready for capture");
+    return null;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = videoElement.videoWidth;
+  canvas.height = videoElement.videoHeight;
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    console.warn("Could not get canvas context");
+    return null;
+  }
+
+  ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 1.0);
+}
+
+function mediaClientOf({ mediaClient }: ToolContext) {
+  if (!mediaClient) {
+    throw new Error("MediaClient not initialized");
+  }
+  return mediaClient;
+}
+
+/**
+ * shows the indicator while `run` makes the media, until the last of
+ * overlapping jobs is done
+ */
+async function generating<T>(media: GeneratedMedia, run: () => Promise<T>) {
+  const { startGenerating, finishGenerating } = useMediaStore.getState();
+  startGenerating(media);
+  try {
+    return await run();
+  } finally {
+    finishGenerating(media);
+  }
+}
+
+function ready(
+  { requestId }: ToolContext,
+  message = "Request completed successfully"
+) {
+  return { status: "ready", requestId, message };
+}
+
+async function generateVideo(
+  context: ToolContext,
+  prompt: string,
+  image?: { mimeType: string; data: string }
+) {
+  const result = await mediaClientOf(context).generateVideo(
+    prompt,
+    image?.data,
+    image?.mimeType,
+    context.signal
+  );
+  context.inspect(result);
+  if (!result?.uri) {
+    throw new Error("No video was generated");
+  }
+  console.log("Video generation complete! Video URI:", result.uri);
+  useMediaStore.getState().setLastVideo({ uri: result.uri });
+  return ready(context, `Video generation complete. URI: ${result.uri}`);
+}
+
+// stands in for the video tools when they are stubbed
+const sampleVideoHandler: ToolHandler = (args, context) =>
+  generating("video", async () => {
+    const blobUrl = await sampleVideo(context.signal);
+    useMediaStore.getState().setLastVideo({ uri: blobUrl, blobUrl });
+    return ready(context, `Video generation complete. URI: ${blobUrl}`);
+  });
+
+function GeneratingIndicator() {
+  const { image, video } = useMediaStore((state) => state.generating);
+  if (!image && !video) {
+    return null;
+  }
+  return (
+    <div className="media-generating-indicator">
+      <div className="generating-spinner" />
+      <span>Creating {video ? "cartoon" : "picture"}...</span>
+    </div>
+  );
+}
+
+// Veo polls for minutes
+const VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
+
+// 1) Generate a cartoon / explainer VIDEO from text (optionally using an image as first frame)
+export const generateVideoTool: ToolDefinition = {
+  declaration: {
+    behavior: "NON_BLOCKING",
+    name: "generate_video",
+    description:
+      "Generates a short, kid-friendly explainer or cartoon video using the Veo 3.1 model based on a text prompt. Can optionally use an image as a starting frame.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: {
+          type: Type.STRING,
+          description:
+            "A clear, detailed text prompt describing the video to generate. Mention that it should be simple, colorful, and easy for children to understand.",
+        },
+        imageBase64: {
+          type: Type.STRING,
+          description:
+            "Optional base64-encoded image to use as a starting frame for the video (for example, a previously generated explainer image). Should include the data URI prefix (e.g., 'data:image/jpeg;base64,...').",
+        },
+      },
+      required: ["prompt"],
+    },
+  },
+  handler: ({ prompt, imageBase64 }, context) =>
+    generating("video", () =>
+      generateVideo(
+        context,
+        prompt,
+        !imageBase64
+          ? undefined
+          : imageBase64.startsWith("data:")
+          ? parseDataUri(imageBase64) || undefined
+          : { mimeType: "image/jpeg", data: imageBase64 }
+      )
+    ),
+  timeoutMs: VIDEO_TIMEOUT_MS,
+  Renderer: GeneratingIndicator,
+  sample: sampleVideoHandler,
+  // worth acting on right away, the child has been waiting the longest
+  scheduling: "INTERRUPT",
+  media: "video",
+};
+
+// 2) IMAGE GENERATION
+export const generateImageTool: ToolDefinition = {
+  declaration: {
+    behavior: "NON_BLOCKING",
+    name: "generate_image",
+    description:
+      "Generates one or more kid-friendly images based on a text prompt. Use this for explanation pictures (e.g., why the sky is blue), still frames of a favorite toy, or simple cartoon scenes.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: {
+          type: Type.STRING,
+          description:
+            "A clear, detailed text prompt describing the image(s) to generate. Mention that the style should be simple, colorful, and easy for children to understand.",
+        },
+      },
+      required: ["prompt"],
+    },
+  },
+  handler: ({ prompt }, context) =>
+    generating("image", async () => {
+      const result = await mediaClientOf(context).generateImage(
+        prompt,
+        context.signal
+      );
+      context.inspect(result);
+      const imageDataUri = parseImageResponse(result);
+      if (!imageDataUri) {
+        throw new Error("No image was generated");
+      }
+      console.log("Image generation complete!");
+      useMediaStore.getState().setLastImage(imageDataUri);
+      return ready(context);
+    }),
+  timeoutMs: 2 * 60 * 1000,
+  Renderer: GeneratingIndicator,
+  sample: ({ prompt }, context) =>
+    generating("image", async () => {
+      useMediaStore.getState().setLastImage(sampleImage(prompt));
+      return ready(context);
+    }),
+  scheduling: "WHEN_IDLE",
+  media: "image",
+};
+
+export const generateSpeechTool: ToolDefinition = {
+  declaration: {
+    behavior: "NON_BLOCKING",
+    name: "generate_speech",
+    description: "Generates speech audio from text using the Google TTS model.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: {
+          type: Type.STRING,
+          description: "The text to convert to speech.",
+        },
+      },
+      required: ["text"],
+    },
+  },
+  handler: async ({ text }, context) => {
+    context.inspect(
+      await mediaClientOf(context).generateSpeech(text, context.signal)
+    );
+    return ready(context);
+  },
+  timeoutMs: 60 * 1000,
+  // nothing for the model to do with the audio
+  scheduling: "SILENT",
+  sample: async (args, context) => ready(context),
+};
+
+// 3) Generate a VIDEO based on what the child is showing on the webcam (toy, Lego, etc.)
+export const generateVideoFromWebcamTool: ToolDefinition = {
+  declaration: {
+    behavior: "NON_BLOCKING",
+    name: "generate_video_from_webcam",
+    description:
+      "Captures the current frame from the webcam feed and generates a kid-friendly video using the Veo model with the provided prompt. Use this when the child asks to make a cartoon about what they are currently showing in the camera (for example, their favorite toy or a Lego tower).",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: {
+          type: Type.STRING,
+          description:
+            "A text prompt describing what video to generate based on the webcam frame, including how the shown object should move or act in the cartoon or explainer.",
+        },
+      },
+      required: ["prompt"],
+    },
+  },
+  handler: ({ prompt }, context) =>
+    generating("video", () => {
+      const frameDataURI = captureFrameFromWebcam();
+      if (!frameDataURI) {
+        throw new Error(
+          "Could not capture frame from webcam. Make sure the webcam is active and showing video."
+        );
+      }
+      const frame = parseDataUri(frameDataURI);
+      if (!frame) {
+        throw new Error("Could not parse captured frame data");
+      }
+      return generateVideo(context, prompt, frame);
+    }),
+  timeoutMs: VIDEO_TIMEOUT_MS,
+  Renderer: GeneratingIndicator,
+  sample: sampleVideoHandler,
+  scheduling: "INTERRUPT",
+  media: "video",
+};
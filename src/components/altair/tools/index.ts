@@ -0,0 +1,36 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ToolDefinition } from "../../../lib/tool-registry";
+import {
+  generateImageTool,
+  generateSpeechTool,
+  generateVideoFromWebcamTool,
+  generateVideoTool,
+} from "./generate-media";
+import { hideMediaTool, showMediaTool } from "./media-display";
+import { renderAltairTool } from "./render-altair";
+
+// the tools the app starts with, drawn in this order
+export const defaultTools: ToolDefinition[] = [
+  renderAltairTool,
+  generateVideoTool,
+  generateImageTool,
+  generateSpeechTool,
+  generateVideoFromWebcamTool,
+  showMediaTool,
+  hideMediaTool,
+];
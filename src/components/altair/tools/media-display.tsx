@@ -0,0 +1,170 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect } from "react";
+import { Type } from "@google/genai";
+import { MediaClient } from "../../../lib/media-client";
+import { useMediaStore } from "../../../lib/store-media";
+import { ToolDefinition } from "../../../lib/tool-registry";
+
+/**
+ * Downloads a video from the given URI and returns a blob URL for playback
+ */
+async function downloadVideoAsBlob(
+  uri: string,
+  mediaClient: MediaClient
+): Promise<string> {
+  const blob = await mediaClient.downloadVideo(uri);
+  return URL.createObjectURL(blob);
+}
+
+function MediaDisplay() {
+  const { display, loading, lastVideo, setDisplay } = useMediaStore();
+
+  // Cleanup blob URLs when component unmounts or media changes
+  useEffect(() => {
+    return () => {
+      if (lastVideo?.blobUrl) {
+        URL.revokeObjectURL(lastVideo.blobUrl);
+      }
+    };
+  }, [lastVideo?.blobUrl]);
+
+  return (
+    <>
+      {/* Media Loading Indicator */}
+      {loading && (
+        <div className="media-loading">
+          <div className="loading-spinner" />
+          <span>Loading media...</span>
+        </div>
+      )}
+
+      {display && display.visible && (
+        <div className="media-display">
+          <button
+            className="media-close-btn"
+            onClick={() => setDisplay(null)}
+            title="Close"
+          >
+            ×
+          </button>
+
+          {display.type === "video" && (
+            <video
+              className="generated-video"
+              src={display.url}
+              controls
+              autoPlay
+              loop
+            />
+          )}
+
+          {display.type === "image" && (
+            <img
+              className="generated-image"
+              src={display.url}
+              alt="Generated"
+            />
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+// 4) Show the latest generated media (image or video)
+export const showMediaTool: ToolDefinition = {
+  declaration: {
+    name: "show_media",
+    description:
+      "Shows the most recently generated video or image on the screen. Use this after generating media when you want to display it to the child.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        mediaType: {
+          type: Type.STRING,
+          description:
+            "The type of media to show: 'video' or 'image'. Call it right after the media is generated.",
+          format: "enum",
+          enum: ["video", "image"],
+        },
+      },
+      required: ["mediaType"],
+    },
+  },
+  handler: async ({ mediaType }, { mediaClient, notify }) => {
+    const { lastVideo, lastImage, setDisplay, setLastVideo, setLoading } =
+      useMediaStore.getState();
+    try {
+      if (mediaType === "video" && lastVideo) {
+        setLoading(true);
+
+        let blobUrl = lastVideo.blobUrl;
+        if (!blobUrl) {
+          if (!mediaClient) {
+            throw new Error("MediaClient not initialized");
+          }
+          blobUrl = await downloadVideoAsBlob(lastVideo.uri, mediaClient);
+          setLastVideo({ ...lastVideo, blobUrl });
+        }
+
+        setDisplay({ type: "video", url: blobUrl, visible: true });
+        setLoading(false);
+        notify({ type: "shown", media: "video" });
+        return { success: true, message: "Video is now displayed on screen." };
+      }
+      if (mediaType === "image" && lastImage) {
+        setDisplay({ type: "image", url: lastImage, visible: true });
+        notify({ type: "shown", media: "image" });
+        return { success: true, message: "Image is now displayed on screen." };
+      }
+      return {
+        success: false,
+        error: `No ${mediaType} has been generated yet.`,
+      };
+    } catch (error: any) {
+      setLoading(false);
+      return {
+        success: false,
+        error: error?.message || "Failed to show media",
+      };
+    }
+  },
+  // long enough to download the video
+  timeoutMs: 60 * 1000,
+  Renderer: MediaDisplay,
+};
+
+// 5) Hide whatever is currently displayed
+export const hideMediaTool: ToolDefinition = {
+  declaration: {
+    name: "hide_media",
+    description:
+      "Hides the currently displayed video or image from the screen.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {},
+      required: [],
+    },
+  },
+  handler: async (args, { notify }) => {
+    useMediaStore.getState().setDisplay(null);
+    notify({ type: "hidden" });
+    return { success: true, message: "Media has been hidden from screen." };
+  },
+  Renderer: MediaDisplay,
+};
@@ -0,0 +1,67 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useRef } from "react";
+import vegaEmbed from "vega-embed";
+import { create } from "zustand";
+import { Type } from "@google/genai";
+import { ToolDefinition } from "../../../lib/tool-registry";
+
+// the last graph the model asked for
+const useGraphStore = create<{
+  json: string;
+  setJson: (json: string) => void;
+}>((set) => ({
+  json: "",
+  setJson: (json) => set({ json }),
+}));
+
+function Graph() {
+  const jsonString = useGraphStore((state) => state.json);
+  const embedRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (embedRef.current && jsonString) {
+      console.log("jsonString", jsonString);
+      vegaEmbed(embedRef.current, JSON.parse(jsonString));
+    }
+  }, [embedRef, jsonString]);
+
+  return <div className="vega-embed" ref={embedRef} />;
+}
+
+export const renderAltairTool: ToolDefinition = {
+  declaration: {
+    name: "render_altair",
+    description: "Displays an altair graph in json format.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        json_graph: {
+          type: Type.STRING,
+          description:
+            "JSON STRING representation of the graph to render. Must be a string, not a json object",
+        },
+      },
+      required: ["json_graph"],
+    },
+  },
+  handler: async ({ json_graph }) => {
+    useGraphStore.getState().setJson(json_graph);
+    return { success: true };
+  },
+  Renderer: Graph,
+};
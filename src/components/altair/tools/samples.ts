@@ -0,0 +1,101 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Bundled stand-ins for generated media, used by stubbed tools so the flow
+ * can be tried without calling the media models or the network.
+ */
+
+const SAMPLE_VIDEO_MS = 2000;
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+/**
+ * a cartoon sky with the prompt written on it, as a data URI
+ */
+export function sampleImage(prompt: string): string {
+  const caption = prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="400" viewBox="0 0 640 400">
+  <rect width="640" height="400" fill="#87CEEB"/>
+  <circle cx="520" cy="90" r="50" fill="#FFD700"/>
+  <ellipse cx="170" cy="110" rx="90" ry="35" fill="#F0F8FF"/>
+  <rect y="300" width="640" height="100" fill="#98FF98"/>
+  <text x="320" y="230" font-family="sans-serif" font-size="22" text-anchor="middle" fill="#6B4C7A">Sample picture</text>
+  <text x="320" y="265" font-family="sans-serif" font-size="16" text-anchor="middle" fill="#6B4C7A">${escapeXml(
+    caption
+  )}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * records a short bouncing ball animation and returns a blob URL for playback
+ */
+export function sampleVideo(signal: AbortSignal): Promise<string> {
+  if (typeof MediaRecorder === "undefined") {
+    return Promise.reject(
+      new Error("This browser can't record the sample video")
+    );
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = 320;
+  canvas.height = 180;
+  const ctx = canvas.getContext("2d")!;
+  const recorder = new MediaRecorder(canvas.captureStream(30));
+  const chunks: Blob[] = [];
+  const startedAt = performance.now();
+  let frame = -1;
+
+  const draw = () => {
+    const t = (performance.now() - startedAt) / SAMPLE_VIDEO_MS;
+    ctx.fillStyle = "#87CEEB";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = "#FFB6C1";
+    ctx.beginPath();
+    ctx.arc(
+      20 + t * (canvas.width - 40),
+      150 - Math.abs(Math.sin(t * Math.PI * 3)) * 110,
+      16,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+    frame = requestAnimationFrame(draw);
+  };
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => recorder.stop();
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      cancelAnimationFrame(frame);
+      signal.removeEventListener("abort", onAbort);
+      if (signal.aborted) {
+        reject(new DOMException("The sample was cancelled.", "AbortError"));
+        return;
+      }
+      const blob = new Blob(chunks, { type: recorder.mimeType });
+      resolve(URL.createObjectURL(blob));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    draw();
+    recorder.start();
+    setTimeout(
+      () => recorder.state !== "inactive" && recorder.stop(),
+      SAMPLE_VIDEO_MS
+    );
+  });
+}
@@ -16,16 +16,38 @@
 
 import cn from "classnames";
 
-import { memo, ReactNode, RefObject, useCallback, useEffect, useRef, useState } from "react";
-import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
-import { useFunctionAPIContext } from "../../contexts/FunctionAPIContext";
+import { LiveConnectConfig } from "@google/genai";
+import {
+  FormEvent,
+  memo,
+  ReactNode,
+  RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useSessionManagerContext } from "../../contexts/SessionManagerContext";
+import { SessionRole } from "../../hooks/use-session-manager";
 import { UseMediaStreamResult } from "../../hooks/use-media-stream-mux";
 import { useScreenCapture } from "../../hooks/use-screen-capture";
 import { useWebcam } from "../../hooks/use-webcam";
-import { AudioRecorder } from "../../lib/audio-recorder";
+import {
+  AudioRecorder,
+  defaultCaptureConstraints,
+} from "../../lib/audio-recorder";
+import { DuckingOptions, MicDucker } from "../../lib/mic-ducking";
+import { useUsageStore } from "../../lib/store-usage";
+import { useLatencyStore } from "../../lib/store-latency";
+import {
+  architectureLabels,
+  useArchitectureStore,
+} from "../../lib/store-architecture";
 import AudioPulse from "../audio-pulse/AudioPulse";
 import "./control-tray.scss";
 import SettingsDialog from "../settings-dialog/SettingsDialog";
+import SessionStatusChip from "../session-status/SessionStatusChip";
 
 export type ControlTrayProps = {
   videoRef: RefObject<HTMLVideoElement>;
@@ -33,6 +55,10 @@ export type ControlTrayProps = {
   supportsVideo: boolean;
   onVideoStreamChange?: (stream: MediaStream | null) => void;
   enableEditingSettings?: boolean;
+  // getUserMedia constraints for the mic, echo cancellation on by default
+  audioConstraints?: MediaTrackConstraints;
+  // turns the mic down while the model speaks, so it doesn't interrupt itself
+  ducking?: DuckingOptions | false;
 };
 
 type MediaStreamButtonProps = {
@@ -43,6 +69,41 @@ type MediaStreamButtonProps = {
   stop: () => any;
 };
 
+// what goes missing while a session of that role is down
+const unavailableLabels: Record<SessionRole, string> = {
+  speaker: "Voice unavailable",
+  "tool-caller": "Pictures unavailable",
+  observer: "Observer unavailable",
+};
+
+/**
+ * disables or restores the server's voice activity detection, leaving it to
+ * the client to mark when the user speaks
+ */
+function withPushToTalk(
+  config: LiveConnectConfig,
+  enabled: boolean
+): LiveConnectConfig {
+  return {
+    ...config,
+    realtimeInputConfig: {
+      ...config.realtimeInputConfig,
+      automaticActivityDetection: {
+        ...config.realtimeInputConfig?.automaticActivityDetection,
+        disabled: enabled,
+      },
+    },
+  };
+}
+
+// keep the spacebar working in text fields
+function isTextInput(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA"].includes(target.tagName))
+  );
+}
+
 /**
  * button used for triggering webcam or screen-capture
  */
@@ -65,6 +126,8 @@ function ControlTray({
   onVideoStreamChange = () => {},
   supportsVideo,
   enableEditingSettings,
+  audioConstraints = defaultCaptureConstraints,
+  ducking = false,
 }: ControlTrayProps) {
   const videoStreams = [useWebcam(), useScreenCapture()];
   const [activeVideoStream, setActiveVideoStream] =
@@ -73,41 +136,156 @@ function ControlTray({
   const [inVolume, setInVolume] = useState(0);
   const [audioRecorder] = useState(() => new AudioRecorder());
   const [muted, setMuted] = useState(false);
+  const [talking, setTalking] = useState(false);
+  // read by the audio callback without restarting the recorder
+  const talkingRef = useRef(false);
   const renderCanvasRef = useRef<HTMLCanvasElement>(null);
   const connectButtonRef = useRef<HTMLButtonElement>(null);
 
-  // Speaking model - handles audio conversation
-  const { 
-    client: speakingClient, 
-    connected: speakingConnected, 
-    connect: connectSpeaking, 
-    disconnect: disconnectSpeaking, 
-    volume 
-  } = useLiveAPIContext();
-  
-  // Function model - handles function calling
-  const { 
-    client: functionClient, 
-    connected: functionConnected, 
-    connect: connectFunction, 
-    disconnect: disconnectFunction 
-  } = useFunctionAPIContext();
-  
-  // Both models need to be connected for the system to work
-  const connected = speakingConnected && functionConnected;
-  
-  // Connect/disconnect both models together
+  // every session needs to be connected for the system to work
+  const {
+    sessions,
+    subscribers,
+    connected,
+    connectAll,
+    disconnectAll,
+    degraded,
+    unavailable,
+    volume,
+    isPlaying,
+  } = useSessionManagerContext();
+  // read by the media callbacks without restarting the recorder
+  const subscribersRef = useRef(subscribers);
+  subscribersRef.current = subscribers;
+  const speakerConfig = sessions.find((s) => s.role === "speaker")?.config;
+
+  const startUsageSession = useUsageStore((state) => state.startSession);
+  const startLatencySession = useLatencyStore((state) => state.startSession);
+  const architecture = useArchitectureStore((state) => state.architecture);
+  const [realtimeText, setRealtimeText] = useState("");
+
+  const ducker = useMemo(
+    () => (ducking ? new MicDucker(ducking, isPlaying) : null),
+    [ducking, isPlaying]
+  );
+
+  useEffect(() => {
+    ducker?.onPlaybackVolume(volume);
+  }, [ducker, volume]);
+
+  // takes effect the next time the mic starts
+  useEffect(() => {
+    audioRecorder.constraints = audioConstraints;
+  }, [audioRecorder, audioConstraints]);
+
+  // muting pauses the audio stream, let the server flush what it buffered
+  const toggleMuted = useCallback(() => {
+    if (!muted && connected) {
+      subscribers("audio").forEach(({ client }) => client.endAudioStream());
+    }
+    setMuted(!muted);
+  }, [muted, connected, subscribers]);
+
+  // typed text goes on the realtime stream, like speech
+  const sendRealtimeText = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      const text = realtimeText.trim();
+      if (!text || !connected) {
+        return;
+      }
+      subscribers("text").forEach(({ client }) =>
+        client.sendRealtimeText(text)
+      );
+      setRealtimeText("");
+    },
+    [realtimeText, connected, subscribers]
+  );
+
+  // push-to-talk is a connect-time setting of the sessions that hear the mic
+  const pushToTalk =
+    !!speakerConfig?.realtimeInputConfig?.automaticActivityDetection?.disabled;
+
+  const setPushToTalk = useCallback(
+    (enabled: boolean) => {
+      sessions
+        .filter(({ inputs }) => inputs.includes("audio"))
+        .forEach(({ config, setConfig }) =>
+          setConfig(withPushToTalk(config, enabled))
+        );
+    },
+    [sessions]
+  );
+
+  const startTalking = useCallback(() => {
+    if (!connected || talkingRef.current) {
+      return;
+    }
+    talkingRef.current = true;
+    setTalking(true);
+    subscribersRef
+      .current("audio")
+      .forEach(({ client }) => client.sendActivityStart());
+  }, [connected]);
+
+  const stopTalking = useCallback(() => {
+    if (!talkingRef.current) {
+      return;
+    }
+    talkingRef.current = false;
+    setTalking(false);
+    subscribersRef
+      .current("audio")
+      .forEach(({ client }) => client.sendActivityEnd());
+  }, []);
+
+  // hold the spacebar to talk
+  useEffect(() => {
+    if (!pushToTalk || !connected) {
+      talkingRef.current = false;
+      setTalking(false);
+      return;
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTextInput(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      if (!e.repeat) {
+        startTalking();
+      }
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTextInput(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      stopTalking();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", stopTalking);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", stopTalking);
+    };
+  }, [pushToTalk, connected, startTalking, stopTalking]);
+
+  // Connect/disconnect every session together
   const connect = useCallback(async () => {
-    console.log("[ControlTray] Connecting both models...");
-    await Promise.all([connectSpeaking(), connectFunction()]);
-    console.log("[ControlTray] Both models connected!");
-  }, [connectSpeaking, connectFunction]);
-  
+    console.log("[ControlTray] Connecting all sessions...");
+    startUsageSession();
+    startLatencySession(architectureLabels[architecture]);
+    await connectAll();
+    console.log("[ControlTray] All sessions connected!");
+  }, [connectAll, startUsageSession, startLatencySession, architecture]);
+
   const disconnect = useCallback(async () => {
-    console.log("[ControlTray] Disconnecting both models...");
-    await Promise.all([disconnectSpeaking(), disconnectFunction()]);
-    console.log("[ControlTray] Both models disconnected!");
-  }, [disconnectSpeaking, disconnectFunction]);
+    console.log("[ControlTray] Disconnecting all sessions...");
+    await disconnectAll();
+    console.log("[ControlTray] All sessions disconnected!");
+  }, [disconnectAll]);
 
   useEffect(() => {
     if (!connected && connectButtonRef.current) {
@@ -121,29 +299,52 @@ function ControlTray({
     );
   }, [inVolume]);
 
-  // Send audio data to BOTH models
+  // Send audio data to every session that listens to the mic
   useEffect(() => {
     const onData = (base64: string) => {
-      const audioChunk = {
-        mimeType: "audio/pcm;rate=16000",
-        data: base64,
-      };
-      // Send to speaking model (for conversation)
-      speakingClient.sendRealtimeInput([audioChunk]);
-      // Send to function model (for function calling)
-      functionClient.sendRealtimeInput([audioChunk]);
+      // in push-to-talk mode the mic only counts while the button is held
+      if (pushToTalk && !talkingRef.current) {
+        return;
+      }
+      const chunk = ducker ? ducker.process(base64) : base64;
+      if (chunk === null) {
+        return;
+      }
+      subscribersRef
+        .current("audio")
+        .forEach(({ client }) => client.sendAudio(chunk));
     };
-    if (connected && !muted && audioRecorder) {
-      audioRecorder.on("data", onData).on("volume", setInVolume).start();
+    const onVolume = (volume: number) => {
+      setInVolume(volume);
+      ducker?.onVolume(volume);
+    };
+    // push-to-talk marks the end of speech itself when the button is released
+    const onSpeechEnd = (at: number) => {
+      if (!pushToTalk) {
+        subscribersRef
+          .current("audio")
+          .filter(({ role }) => role === "speaker")
+          .forEach(({ client }) => client.markSpeechEnd(at));
+      }
+    };
+    if (connected && (pushToTalk || !muted) && audioRecorder) {
+      audioRecorder
+        .on("data", onData)
+        .on("volume", onVolume)
+        .on("speechend", onSpeechEnd)
+        .start();
     } else {
       audioRecorder.stop();
     }
     return () => {
-      audioRecorder.off("data", onData).off("volume", setInVolume);
+      audioRecorder
+        .off("data", onData)
+        .off("volume", onVolume)
+        .off("speechend", onSpeechEnd);
     };
-  }, [connected, speakingClient, functionClient, muted, audioRecorder]);
+  }, [connected, muted, pushToTalk, audioRecorder, ducker]);
 
-  // Send video frames to BOTH models
+  // Send video frames to every session that watches
   useEffect(() => {
     if (videoRef.current) {
       videoRef.current.srcObject = activeVideoStream;
@@ -166,10 +367,9 @@ function ControlTray({
         ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
         const base64 = canvas.toDataURL("image/jpeg", 1.0);
         const data = base64.slice(base64.indexOf(",") + 1, Infinity);
-        const videoChunk = { mimeType: "image/jpeg", data };
-        // Send to both models
-        speakingClient.sendRealtimeInput([videoChunk]);
-        functionClient.sendRealtimeInput([videoChunk]);
+        subscribersRef
+          .current("video")
+          .forEach(({ client }) => client.sendVideoFrame(data));
       }
       if (connected) {
         timeoutId = window.setTimeout(sendVideoFrame, 1000 / 0.5);
@@ -181,7 +381,7 @@ function ControlTray({
     return () => {
       clearTimeout(timeoutId);
     };
-  }, [connected, activeVideoStream, speakingClient, functionClient, videoRef]);
+  }, [connected, activeVideoStream, videoRef]);
 
   //handler for swapping from one video-stream to the next
   const changeStreams = (next?: UseMediaStreamResult) => async () => {
@@ -201,21 +401,54 @@ function ControlTray({
     <section className="control-tray">
       <canvas style={{ display: "none" }} ref={renderCanvasRef} />
       <nav className={cn("actions-nav", { disabled: !connected })}>
-        <button
-          className={cn("action-button mic-button")}
-          onClick={() => setMuted(!muted)}
-        >
-          {!muted ? (
-            <span className="material-symbols-outlined filled">mic</span>
-          ) : (
-            <span className="material-symbols-outlined filled">mic_off</span>
-          )}
-        </button>
+        {pushToTalk ? (
+          <button
+            className={cn("action-button mic-button push-to-talk", {
+              talking,
+            })}
+            title="Hold to talk (or hold space)"
+            onPointerDown={startTalking}
+            onPointerUp={stopTalking}
+            onPointerLeave={stopTalking}
+          >
+            <span className="material-symbols-outlined filled">
+              {talking ? "mic" : "mic_none"}
+            </span>
+          </button>
+        ) : (
+          <button
+            className={cn("action-button mic-button")}
+            onClick={toggleMuted}
+          >
+            {!muted ? (
+              <span className="material-symbols-outlined filled">mic</span>
+            ) : (
+              <span className="material-symbols-outlined filled">mic_off</span>
+            )}
+          </button>
+        )}
 
         <div className="action-button no-action outlined">
           <AudioPulse volume={volume} active={connected} hover={false} />
         </div>
 
+        <form className="realtime-text" onSubmit={sendRealtimeText}>
+          <input
+            type="text"
+            placeholder="Type to both models…"
+            value={realtimeText}
+            disabled={!connected}
+            onChange={(e) => setRealtimeText(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="action-button"
+            disabled={!connected || !realtimeText.trim()}
+          >
+            <span className="material-symbols-outlined filled">send</span>
+          </button>
+        </form>
+
         {supportsVideo && (
           <>
             <MediaStreamButton
@@ -248,8 +481,45 @@ function ControlTray({
               {connected ? "pause" : "play_arrow"}
             </span>
           </button>
+          <button
+            className={cn("action-button mode-toggle", {
+              disabled: connected,
+            })}
+            disabled={connected}
+            title={
+              pushToTalk
+                ? "Push-to-talk: hold the mic to speak"
+                : "Hands-free: the model listens all the time"
+            }
+            onClick={() => setPushToTalk(!pushToTalk)}
+          >
+            <span className="material-symbols-outlined">
+              {pushToTalk ? "front_hand" : "hearing"}
+            </span>
+          </button>
         </div>
-        <span className="text-indicator">Streaming</span>
+        <div className="session-status">
+          {sessions.map(({ name, label, client }) => (
+            <SessionStatusChip key={name} label={label} client={client} />
+          ))}
+        </div>
+        {degraded && (
+          <div className="degraded-badges">
+            {unavailable.map(({ name, role, status }) => (
+              <span
+                key={name}
+                className="degraded-badge"
+                title={
+                  status.state === "failed"
+                    ? `${status.reason}, retrying`
+                    : "Reconnecting"
+                }
+              >
+                {unavailableLabels[role]}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
       {enableEditingSettings ? <SettingsDialog /> : ""}
     </section>
@@ -0,0 +1,91 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./latency-panel.scss";
+
+import {
+  LatencySession,
+  summarizeLatency,
+  useLatencyStore,
+} from "../../lib/store-latency";
+import { LatencyMetric } from "../../types";
+
+const metrics: { metric: LatencyMetric; label: string }[] = [
+  { metric: "speech-to-audio", label: "End of speech → first audio" },
+  { metric: "audio-to-playback", label: "First audio → audible" },
+  { metric: "tool-response", label: "Tool call → response" },
+];
+
+const formatMs = (ms: number) => (isNaN(ms) ? "–" : `${Math.round(ms)}ms`);
+
+const LatencyTable = ({ session }: { session: LatencySession }) => (
+  <table>
+    <thead>
+      <tr>
+        <th />
+        <th>n</th>
+        <th>p50</th>
+        <th>p90</th>
+        <th>p99</th>
+      </tr>
+    </thead>
+    <tbody>
+      {metrics.map(({ metric, label }) => {
+        const summary = summarizeLatency(
+          session.samples.filter((s) => s.metric === metric)
+        );
+        return (
+          <tr key={metric}>
+            <th>{label}</th>
+            <td>{summary.count}</td>
+            <td>{formatMs(summary.p50)}</td>
+            <td>{formatMs(summary.p90)}</td>
+            <td>{formatMs(summary.p99)}</td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
+
+/**
+ * percentiles of the voice turn latencies, for the current session and the
+ * ones before it
+ */
+export default function LatencyPanel() {
+  const { sessions } = useLatencyStore();
+
+  return (
+    <div className="latency-panel">
+      {sessions
+        .slice()
+        .reverse()
+        .map((session, i) => (
+          <section
+            key={session.startedAt.getTime()}
+            className="latency-session"
+          >
+            <h4>
+              {i === 0 ? "Current session" : "Session"}
+              {session.label && ` (${session.label})`} since{" "}
+              {session.startedAt.toLocaleTimeString().slice(0, -3)}
+            </h4>
+            <LatencyTable session={session} />
+          </section>
+        ))}
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ import { vs2015 as dark } from "react-syntax-highlighter/dist/esm/styles/hljs";
 import {
   ClientContentLog as ClientContentLogType,
   StreamingLog,
+  ToolValidationLog as ToolValidationLogType,
 } from "../../types";
 import {
   Content,
@@ -189,6 +190,24 @@ const ToolResponseLog = memo(
   )
 );
 
+const ToolValidationLog = memo(({ message }: Message): JSX.Element => {
+  const { name, args, violations } = (message as ToolValidationLogType)
+    .toolValidation;
+  return (
+    <div className={cn("rich-log tool-validation")}>
+      <h5>Invalid call: {name}</h5>
+      <ul className="violations">
+        {violations.map((violation, i) => (
+          <li key={i}>{violation}</li>
+        ))}
+      </ul>
+      <SyntaxHighlighter language="json" style={dark}>
+        {JSON.stringify(args, null, "  ")}
+      </SyntaxHighlighter>
+    </div>
+  );
+});
+
 const ModelTurnLog = ({ message }: Message): JSX.Element => {
   const serverContent = (message as { serverContent: LiveServerContent })
     .serverContent;
@@ -221,7 +240,8 @@ const filters: Record<LoggerFilterType, (log: StreamingLog) => boolean> = {
     typeof log.message === "object" &&
     ("toolCall" in log.message ||
       "functionResponses" in log.message ||
-      "toolCallCancellation" in log.message),
+      "toolCallCancellation" in log.message ||
+      "toolValidation" in log.message),
   conversations: (log: StreamingLog) =>
     typeof log.message === "object" &&
     (("turns" in log.message && "turnComplete" in log.message) ||
@@ -245,6 +265,9 @@ const component = (log: StreamingLog) => {
   if ("functionResponses" in log.message) {
     return ToolResponseLog;
   }
+  if ("toolValidation" in log.message) {
+    return ToolValidationLog;
+  }
   if ("serverContent" in log.message) {
     const { serverContent } = log.message;
     if (serverContent?.interrupted) {
@@ -0,0 +1,159 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./session-recorder.scss";
+
+import cn from "classnames";
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from "react";
+import { useSessionManagerContext } from "../../contexts/SessionManagerContext";
+import {
+  parseJSONL,
+  SessionRecorder,
+  toJSONL,
+} from "../../lib/session-recorder";
+
+function download(contents: string, filename: string) {
+  const url = URL.createObjectURL(
+    new Blob([contents], { type: "application/jsonl" })
+  );
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * record every live session to a JSONL capture, or replay one through the clients
+ */
+export default function SessionRecorderControls() {
+  const { sessions } = useSessionManagerContext();
+  const [recording, setRecording] = useState(false);
+  const [replaying, setReplaying] = useState(false);
+  const cancelReplayRef = useRef<(() => void) | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // read at record and replay time, sessions re-render on every status change
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  const sessionNames = sessions.map(({ name }) => name).join(",");
+
+  const clients = useCallback(
+    () =>
+      Object.fromEntries(
+        sessionsRef.current.map(({ name, client }) => [name, client])
+      ),
+    []
+  );
+
+  const startRecording = () => {
+    Object.entries(clients()).forEach(([session, client]) => {
+      client.recorder = new SessionRecorder(session);
+    });
+    setRecording(true);
+  };
+
+  const stopRecording = () => {
+    const entries = Object.values(clients()).flatMap((client) => {
+      const captured = client.recorder?.entries || [];
+      client.recorder = null;
+      return captured;
+    });
+    setRecording(false);
+    download(
+      toJSONL(entries),
+      `live-session-${new Date().toISOString().replace(/[:.]/g, "-")}.jsonl`
+    );
+  };
+
+  const stopReplay = useCallback(() => {
+    cancelReplayRef.current?.();
+    cancelReplayRef.current = null;
+    setReplaying(false);
+  }, []);
+
+  const startReplay = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    let entries;
+    try {
+      entries = parseJSONL(await file.text());
+    } catch (error: any) {
+      console.error("[SessionRecorder]", error?.message);
+      return;
+    }
+    if (!entries.length) {
+      return;
+    }
+    stopReplay();
+
+    // keep every session on the same clock
+    const startTime = entries[0].t;
+    const end = entries[entries.length - 1].t - startTime;
+    const cancels = Object.entries(clients()).map(([session, client]) =>
+      client.replay(
+        entries.filter((entry) => entry.session === session),
+        startTime
+      )
+    );
+    const doneTimeout = window.setTimeout(() => setReplaying(false), end);
+    cancelReplayRef.current = () => {
+      clearTimeout(doneTimeout);
+      cancels.forEach((cancel) => cancel());
+    };
+    setReplaying(true);
+  };
+
+  // stop replaying when the sessions change or the panel unmounts
+  useEffect(() => stopReplay, [sessionNames, stopReplay]);
+
+  return (
+    <div className="session-recorder-controls">
+      <button
+        className={cn("recorder-button", { active: recording })}
+        onClick={recording ? stopRecording : startRecording}
+        title={recording ? "Stop and download capture" : "Record session"}
+      >
+        <span className="material-symbols-outlined filled">
+          {recording ? "stop_circle" : "radio_button_checked"}
+        </span>
+        {recording ? "Stop recording" : "Record"}
+      </button>
+      <button
+        className={cn("recorder-button", { active: replaying })}
+        onClick={() =>
+          replaying ? stopReplay() : fileInputRef.current?.click()
+        }
+        title={replaying ? "Stop replay" : "Replay a capture"}
+      >
+        <span className="material-symbols-outlined filled">
+          {replaying ? "stop" : "replay"}
+        </span>
+        {replaying ? "Stop replay" : "Replay"}
+      </button>
+      <input
+        ref={fileInputRef}
+        className="hidden"
+        type="file"
+        accept=".jsonl,application/jsonl"
+        onChange={startReplay}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./session-status.scss";
+
+import cn from "classnames";
+import { useSessionStatus } from "../../hooks/use-session-status";
+import { GenAILiveClient } from "../../lib/genai-live-client";
+import { SessionStatus } from "../../types";
+
+const describe = (status: SessionStatus) => {
+  switch (status.state) {
+    case "idle":
+      return "Idle";
+    case "connecting":
+      return "Connecting";
+    case "setting-up":
+      return "Setting up";
+    case "ready":
+      return "Ready";
+    case "reconnecting":
+      return `Reconnecting (${status.attempt})`;
+    case "closing":
+      return "Closing";
+    case "failed":
+      return "Failed";
+  }
+};
+
+export type SessionStatusChipProps = {
+  label: string;
+  client: GenAILiveClient;
+};
+
+/**
+ * where one session is in its lifecycle, with the reason when it failed
+ */
+export default function SessionStatusChip({
+  label,
+  client,
+}: SessionStatusChipProps) {
+  const status = useSessionStatus(client);
+  const description = describe(status);
+
+  return (
+    <span
+      className={cn("session-status-chip", status.state)}
+      title={`${label}: ${
+        status.state === "failed"
+          ? `${description}, ${status.reason}`
+          : description
+      }`}
+    >
+      <span className="dot" />
+      <span className="label">{label}</span>
+      <span className="state">{description}</span>
+    </span>
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Select from "react-select";
+import { useSessionManagerContext } from "../../contexts/SessionManagerContext";
+import {
+  Architecture,
+  architectureLabels,
+  useArchitectureStore,
+} from "../../lib/store-architecture";
+
+const architectureOptions = (
+  Object.entries(architectureLabels) as [Architecture, string][]
+).map(([value, label]) => ({ value, label }));
+
+/**
+ * switches between a speaking model plus a function model and a single model
+ * that does both, to compare them. Locked while any session is open, the
+ * sessions are only set up for the new architecture on the next connect
+ */
+export default function ArchitectureSelector() {
+  const { architecture, setArchitecture } = useArchitectureStore();
+  const { sessions } = useSessionManagerContext();
+  const connected = sessions.some((s) => s.connected);
+
+  return (
+    <div className="select-group">
+      <label htmlFor="architecture-selector">Architecture</label>
+      <Select
+        id="architecture-selector"
+        className="react-select"
+        classNamePrefix="react-select"
+        styles={{
+          control: (baseStyles) => ({
+            ...baseStyles,
+            background: "var(--Neutral-15)",
+            color: "var(--Neutral-90)",
+            minHeight: "33px",
+            maxHeight: "33px",
+            border: 0,
+          }),
+          option: (styles, { isFocused, isSelected }) => ({
+            ...styles,
+            backgroundColor: isFocused
+              ? "var(--Neutral-30)"
+              : isSelected
+              ? "var(--Neutral-20)"
+              : undefined,
+          }),
+        }}
+        value={architectureOptions.find((o) => o.value === architecture)}
+        options={architectureOptions}
+        isDisabled={connected}
+        onChange={(e) => {
+          if (e) {
+            setArchitecture(e.value);
+          }
+        }}
+      />
+    </div>
+  );
+}
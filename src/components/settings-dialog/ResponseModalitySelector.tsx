@@ -1,6 +1,6 @@
 import { useCallback, useState } from "react";
 import Select from "react-select";
-import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { useSessionByRole } from "../../contexts/SessionManagerContext";
 import { Modality } from "@google/genai";
 
 const responseOptions = [
@@ -9,7 +9,7 @@ const responseOptions = [
 ];
 
 export default function ResponseModalitySelector() {
-  const { config, setConfig } = useLiveAPIContext();
+  const { config, setConfig } = useSessionByRole("speaker");
 
   const [selectedOption, setSelectedOption] = useState<{
     value: string;
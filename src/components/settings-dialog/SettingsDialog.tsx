@@ -6,30 +6,29 @@ import {
   useState,
 } from "react";
 import "./settings-dialog.scss";
-import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { useSessionByRole } from "../../contexts/SessionManagerContext";
+import { useToolRegistry } from "../../contexts/ToolRegistryContext";
 import VoiceSelector from "./VoiceSelector";
 import ResponseModalitySelector from "./ResponseModalitySelector";
-import { FunctionDeclaration, LiveConnectConfig, Tool } from "@google/genai";
+import TranscriptionToggle from "./TranscriptionToggle";
+import ArchitectureSelector from "./ArchitectureSelector";
+import ToolStubSettings from "./ToolStubSettings";
+import WebhookToolSettings from "./WebhookToolSettings";
+import { LiveConnectConfig } from "@google/genai";
 
-type FunctionDeclarationsTool = Tool & {
-  functionDeclarations: FunctionDeclaration[];
-};
+// stubs are for development, or builds that start with some stubbed
+const showToolStubs =
+  process.env.NODE_ENV === "development" || !!process.env.REACT_APP_TOOL_STUBS;
 
 export default function SettingsDialog() {
   const [open, setOpen] = useState(false);
-  const { config, setConfig, connected } = useLiveAPIContext();
-  const functionDeclarations: FunctionDeclaration[] = useMemo(() => {
-    if (!Array.isArray(config.tools)) {
-      return [];
-    }
-    return (config.tools as Tool[])
-      .filter((t: Tool): t is FunctionDeclarationsTool =>
-        Array.isArray((t as any).functionDeclarations)
-      )
-      .map((t) => t.functionDeclarations)
-      .filter((fc) => !!fc)
-      .flat();
-  }, [config]);
+  const { config, setConfig, connected } = useSessionByRole("speaker");
+  // the sessions' tools are generated from the registry
+  const { registry, tools } = useToolRegistry();
+  const functionDeclarations = useMemo(
+    () => tools.map(({ declaration }) => declaration),
+    [tools]
+  );
 
   // system instructions can come in many types
   const systemInstruction = useMemo(() => {
@@ -67,28 +66,9 @@ export default function SettingsDialog() {
   );
 
   const updateFunctionDescription = useCallback(
-    (editedFdName: string, newDescription: string) => {
-      const newConfig: LiveConnectConfig = {
-        ...config,
-        tools:
-          config.tools?.map((tool) => {
-            const fdTool = tool as FunctionDeclarationsTool;
-            if (!Array.isArray(fdTool.functionDeclarations)) {
-              return tool;
-            }
-            return {
-              ...tool,
-              functionDeclarations: fdTool.functionDeclarations.map((fd) =>
-                fd.name === editedFdName
-                  ? { ...fd, description: newDescription }
-                  : fd
-              ),
-            };
-          }) || [],
-      };
-      setConfig(newConfig);
-    },
-    [config, setConfig]
+    (editedFdName: string, newDescription: string) =>
+      registry.setDescription(editedFdName, newDescription),
+    [registry]
   );
 
   return (
@@ -110,8 +90,10 @@ export default function SettingsDialog() {
             </div>
           )}
           <div className="mode-selectors">
+            <ArchitectureSelector />
             <ResponseModalitySelector />
             <VoiceSelector />
+            <TranscriptionToggle />
           </div>
 
           <h3>System Instructions</h3>
@@ -146,6 +128,14 @@ export default function SettingsDialog() {
               ))}
             </div>
           </div>
+          <h4>Webhook tools</h4>
+          <WebhookToolSettings />
+          {showToolStubs && (
+            <>
+              <h4>Tool stubs</h4>
+              <ToolStubSettings />
+            </>
+          )}
         </div>
       </dialog>
     </div>
@@ -0,0 +1,138 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useState } from "react";
+import { useToolStubs } from "../../contexts/ToolRegistryContext";
+import { ToolDefinition, ToolStub } from "../../lib/tool-registry";
+
+type StubMode = ToolStub["mode"] | "off";
+
+const modeLabels: Record<StubMode, string> = {
+  off: "real",
+  response: "canned response",
+  sample: "sample media",
+  error: "error",
+};
+
+function ToolStubRow({
+  tool: { declaration, sample },
+  stub,
+  setStub,
+}: {
+  tool: ToolDefinition;
+  stub?: ToolStub;
+  setStub: (stub?: ToolStub) => void;
+}) {
+  // the canned response as it is typed, applied once it is valid JSON
+  const [response, setResponse] = useState(
+    stub?.response ? JSON.stringify(stub.response, null, 2) : ""
+  );
+  const [invalid, setInvalid] = useState(false);
+
+  const updateMode = (mode: StubMode) =>
+    setStub(
+      mode === "off"
+        ? undefined
+        : { ...stub, mode, delayMs: stub?.delayMs || 0 }
+    );
+
+  const updateResponse = (value: string) => {
+    setResponse(value);
+    try {
+      setStub({
+        ...stub!,
+        response: value.trim() ? JSON.parse(value) : undefined,
+      });
+      setInvalid(false);
+    } catch {
+      setInvalid(true);
+    }
+  };
+
+  return (
+    <div className="stub-row">
+      <span className="stub-row-name">{declaration.name}</span>
+      <select
+        className="stub-row-mode"
+        value={stub?.mode || "off"}
+        onChange={(e) => updateMode(e.target.value as StubMode)}
+      >
+        {(Object.keys(modeLabels) as StubMode[])
+          .filter((mode) => mode !== "sample" || sample)
+          .map((mode) => (
+            <option key={mode} value={mode}>
+              {modeLabels[mode]}
+            </option>
+          ))}
+      </select>
+      {stub && (
+        <label className="stub-row-delay">
+          delay
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={stub.delayMs}
+            onChange={(e) =>
+              setStub({ ...stub, delayMs: Number(e.target.value) || 0 })
+            }
+          />
+          ms
+        </label>
+      )}
+      {stub?.mode === "response" && (
+        <textarea
+          className={`stub-row-response ${invalid ? "invalid" : ""}`}
+          placeholder='{ "status": "ready" }'
+          value={response}
+          onChange={(e) => updateResponse(e.target.value)}
+        />
+      )}
+      {stub?.mode === "error" && (
+        <input
+          className="stub-row-error"
+          type="text"
+          placeholder="error message"
+          value={stub.error || ""}
+          onChange={(e) => setStub({ ...stub, error: e.target.value })}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * switches tools to stubs while developing, so no media model is called
+ */
+export default function ToolStubSettings() {
+  const { tools, stubs, setStub } = useToolStubs();
+
+  return (
+    <div className="tool-stubs">
+      {tools.map((tool) => {
+        const name = tool.declaration.name!;
+        return (
+          <ToolStubRow
+            key={name}
+            tool={tool}
+            stub={stubs[name]}
+            setStub={(stub) => setStub(name, stub)}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useCallback } from "react";
+import { useSessionByRole } from "../../contexts/SessionManagerContext";
+
+export default function TranscriptionToggle() {
+  const { config, setConfig } = useSessionByRole("speaker");
+
+  const enabled =
+    !!config.inputAudioTranscription && !!config.outputAudioTranscription;
+
+  const updateConfig = useCallback(
+    (transcribe: boolean) => {
+      setConfig({
+        ...config,
+        inputAudioTranscription: transcribe ? {} : undefined,
+        outputAudioTranscription: transcribe ? {} : undefined,
+      });
+    },
+    [config, setConfig]
+  );
+
+  return (
+    <div className="select-group">
+      <label htmlFor="transcription-toggle">Transcription</label>
+      <label className="toggle">
+        <input
+          id="transcription-toggle"
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => updateConfig(e.target.checked)}
+        />
+        <span>Transcribe audio</span>
+      </label>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useState } from "react";
 import Select from "react-select";
-import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { useSessionByRole } from "../../contexts/SessionManagerContext";
 
 const voiceOptions = [
   { value: "Puck", label: "Puck" },
@@ -11,7 +11,7 @@ const voiceOptions = [
 ];
 
 export default function VoiceSelector() {
-  const { config, setConfig } = useLiveAPIContext();
+  const { config, setConfig } = useSessionByRole("speaker");
 
   useEffect(() => {
     const voiceName =
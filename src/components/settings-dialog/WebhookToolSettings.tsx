@@ -0,0 +1,259 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useState } from "react";
+import { useToolRegistry } from "../../contexts/ToolRegistryContext";
+import { useWebhookToolsStore } from "../../lib/store-webhook-tools";
+import {
+  TOOL_NAME_PATTERN,
+  WebhookParameter,
+  WebhookParameterType,
+  WebhookToolConfig,
+} from "../../lib/webhook-tools";
+
+const parameterTypes: WebhookParameterType[] = [
+  "STRING",
+  "NUMBER",
+  "INTEGER",
+  "BOOLEAN",
+];
+
+const emptyTool = (): WebhookToolConfig => ({
+  name: "",
+  description: "",
+  url: "",
+  parameters: [],
+});
+
+const emptyParameter = (): WebhookParameter => ({
+  name: "",
+  type: "STRING",
+  description: "",
+  required: false,
+});
+
+function isHttpUrl(url: string) {
+  try {
+    return ["http:", "https:"].includes(
+      new URL(url, window.location.href).protocol
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * what keeps a tool from being saved, `reserved` are names of other tools
+ */
+function problems(tool: WebhookToolConfig, reserved: string[]) {
+  const names = tool.parameters.map(({ name }) => name);
+  return [
+    !TOOL_NAME_PATTERN.test(tool.name) &&
+      "The name can only have letters, digits, _ and -",
+    reserved.includes(tool.name) && `${tool.name} is already a tool`,
+    !tool.description.trim() && "Describe when the model should call it",
+    !isHttpUrl(tool.url) && "The endpoint has to be an http(s) URL",
+    names.some((name) => !TOOL_NAME_PATTERN.test(name)) &&
+      "Parameter names can only have letters, digits, _ and -",
+    new Set(names).size !== names.length && "Parameter names must be unique",
+  ].filter((problem): problem is string => !!problem);
+}
+
+function ParameterRow({
+  parameter,
+  onChange,
+  onRemove,
+}: {
+  parameter: WebhookParameter;
+  onChange: (parameter: WebhookParameter) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="webhook-parameter">
+      <input
+        type="text"
+        placeholder="name"
+        value={parameter.name}
+        onChange={(e) => onChange({ ...parameter, name: e.target.value })}
+      />
+      <select
+        value={parameter.type}
+        onChange={(e) =>
+          onChange({
+            ...parameter,
+            type: e.target.value as WebhookParameterType,
+          })
+        }
+      >
+        {parameterTypes.map((type) => (
+          <option key={type} value={type}>
+            {type.toLowerCase()}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="description"
+        value={parameter.description}
+        onChange={(e) =>
+          onChange({ ...parameter, description: e.target.value })
+        }
+      />
+      {parameter.type === "STRING" && (
+        <input
+          key={`enum-${parameter.enum?.join()}`}
+          type="text"
+          placeholder="allowed values, comma separated"
+          defaultValue={parameter.enum?.join(", ")}
+          onBlur={(e) =>
+            onChange({
+              ...parameter,
+              enum: e.target.value
+                .split(",")
+                .map((value) => value.trim())
+                .filter(Boolean),
+            })
+          }
+        />
+      )}
+      <label>
+        <input
+          type="checkbox"
+          checked={parameter.required}
+          onChange={(e) =>
+            onChange({ ...parameter, required: e.target.checked })
+          }
+        />
+        required
+      </label>
+      <button onClick={onRemove}>remove</button>
+    </div>
+  );
+}
+
+/**
+ * defines tools whose calls are POSTed to an HTTP endpoint, e.g. a school
+ * system, without rebuilding the app
+ */
+export default function WebhookToolSettings() {
+  const { tools, save, remove } = useWebhookToolsStore();
+  const { tools: registered } = useToolRegistry();
+  const [draft, setDraft] = useState<WebhookToolConfig>(emptyTool);
+  // the name of the tool being edited, null for a new one
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const reserved = registered
+    .map(({ declaration }) => declaration.name!)
+    .filter((name) => name !== editing);
+  const draftProblems = problems(draft, reserved);
+
+  const updateParameter = (i: number, parameter?: WebhookParameter) =>
+    setDraft({
+      ...draft,
+      parameters: parameter
+        ? draft.parameters.map((p, j) => (j === i ? parameter : p))
+        : draft.parameters.filter((p, j) => j !== i),
+    });
+
+  const saveDraft = () => {
+    if (editing && editing !== draft.name) {
+      remove(editing);
+    }
+    save(draft);
+    setDraft(emptyTool());
+    setEditing(null);
+  };
+
+  return (
+    <div className="webhook-tools">
+      {tools.map((tool) => (
+        <div className="webhook-tool" key={tool.name}>
+          <span className="webhook-tool-name">{tool.name}</span>
+          <span className="webhook-tool-url">{tool.url}</span>
+          <button
+            onClick={() => {
+              setDraft(tool);
+              setEditing(tool.name);
+            }}
+          >
+            edit
+          </button>
+          <button onClick={() => remove(tool.name)}>delete</button>
+        </div>
+      ))}
+
+      <div className="webhook-tool-form">
+        <input
+          type="text"
+          placeholder="name, e.g. lookup_timetable"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        />
+        <input
+          type="text"
+          placeholder="endpoint, e.g. http://localhost:3001/timetable"
+          value={draft.url}
+          onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+        />
+        <textarea
+          placeholder="description, tells the model when to call it"
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        />
+        {draft.parameters.map((parameter, i) => (
+          <ParameterRow
+            key={i}
+            parameter={parameter}
+            onChange={(p) => updateParameter(i, p)}
+            onRemove={() => updateParameter(i)}
+          />
+        ))}
+        <div className="webhook-tool-actions">
+          <button
+            onClick={() =>
+              setDraft({
+                ...draft,
+                parameters: [...draft.parameters, emptyParameter()],
+              })
+            }
+          >
+            add parameter
+          </button>
+          {editing && (
+            <button
+              onClick={() => {
+                setDraft(emptyTool());
+                setEditing(null);
+              }}
+            >
+              cancel
+            </button>
+          )}
+          <button disabled={draftProblems.length > 0} onClick={saveDraft}>
+            {editing ? "save" : "add tool"}
+          </button>
+        </div>
+        {draft.name && draftProblems.length > 0 && (
+          <ul className="webhook-tool-problems">
+            {draftProblems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -16,12 +16,23 @@
 
 import "./react-select.scss";
 import cn from "classnames";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { RiSidebarFoldLine, RiSidebarUnfoldLine } from "react-icons/ri";
 import Select from "react-select";
-import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import {
+  useSessionByRole,
+  useSessionManagerContext,
+} from "../../contexts/SessionManagerContext";
 import { useLoggerStore } from "../../lib/store-logger";
+import { useTranscriptStore } from "../../lib/store-transcript";
 import Logger, { LoggerFilterType } from "../logger/Logger";
+import SessionRecorderControls from "../session-recorder/SessionRecorderControls";
+import SessionStatusChip from "../session-status/SessionStatusChip";
+import Transcript from "../transcript/Transcript";
+import UsagePanel from "../usage/UsagePanel";
+import LatencyPanel from "../latency/LatencyPanel";
+import ToolInspector from "../tool-inspector/ToolInspector";
+import { TranscriptionTurn } from "../../types";
 import "./side-panel.scss";
 
 const filterOptions = [
@@ -30,12 +41,26 @@ const filterOptions = [
   { value: "none", label: "All" },
 ];
 
+type SidePanelView = "logs" | "transcript" | "tools" | "usage" | "latency";
+
+const viewOptions: { value: SidePanelView; label: string }[] = [
+  { value: "logs", label: "Logs" },
+  { value: "transcript", label: "Transcript" },
+  { value: "tools", label: "Tools" },
+  { value: "usage", label: "Usage" },
+  { value: "latency", label: "Latency" },
+];
+
 export default function SidePanel() {
-  const { connected, client } = useLiveAPIContext();
+  const { sessions } = useSessionManagerContext();
+  const { connected, client } = useSessionByRole("speaker");
   const [open, setOpen] = useState(true);
   const loggerRef = useRef<HTMLDivElement>(null);
   const loggerLastHeightRef = useRef<number>(-1);
   const { log, logs } = useLoggerStore();
+  const { entries: transcript, update: updateTranscript } =
+    useTranscriptStore();
+  const [view, setView] = useState<SidePanelView>("logs");
 
   const [textInput, setTextInput] = useState("");
   const [selectedOption, setSelectedOption] = useState<{
@@ -54,15 +79,30 @@ export default function SidePanel() {
         loggerLastHeightRef.current = scrollHeight;
       }
     }
-  }, [logs]);
+  }, [logs, transcript, view]);
+
+  // listen for log events of every session and store them
+  const clients = useMemo(() => sessions.map((s) => s.client), [sessions]);
+  useEffect(() => {
+    clients.forEach((c) => c.on("log", log));
+    return () => {
+      clients.forEach((c) => c.off("log", log));
+    };
+  }, [clients, log]);
 
-  // listen for log events and store them
+  // listen for transcriptions of both sides of the conversation
   useEffect(() => {
-    client.on("log", log);
+    const onInput = (t: TranscriptionTurn) => updateTranscript("user", t);
+    const onOutput = (t: TranscriptionTurn) => updateTranscript("model", t);
+    client
+      .on("inputtranscription", onInput)
+      .on("outputtranscription", onOutput);
     return () => {
-      client.off("log", log);
+      client
+        .off("inputtranscription", onInput)
+        .off("outputtranscription", onOutput);
     };
-  }, [client, log]);
+  }, [client, updateTranscript]);
 
   const handleSubmit = () => {
     client.send([{ text: textInput }]);
@@ -115,16 +155,34 @@ export default function SidePanel() {
             setSelectedOption(e);
           }}
         />
-        <div className={cn("streaming-indicator", { connected })}>
-          {connected
-            ? `🔵${open ? " Streaming" : ""}`
-            : `⏸️${open ? " Paused" : ""}`}
+        <div className="session-status">
+          {sessions.map(({ name, label, client }) => (
+            <SessionStatusChip key={name} label={label} client={client} />
+          ))}
         </div>
       </section>
+      <SessionRecorderControls />
+      <nav className="side-panel-tabs">
+        {viewOptions.map(({ value, label }) => (
+          <button
+            key={value}
+            className={cn("side-panel-tab", { active: view === value })}
+            onClick={() => setView(value)}
+          >
+            {label}
+          </button>
+        ))}
+      </nav>
       <div className="side-panel-container" ref={loggerRef}>
-        <Logger
-          filter={(selectedOption?.value as LoggerFilterType) || "none"}
-        />
+        {view === "logs" && (
+          <Logger
+            filter={(selectedOption?.value as LoggerFilterType) || "none"}
+          />
+        )}
+        {view === "transcript" && <Transcript />}
+        {view === "tools" && <ToolInspector />}
+        {view === "usage" && <UsagePanel />}
+        {view === "latency" && <LatencyPanel />}
       </div>
       <div className={cn("input-container", { disabled: !connected })}>
         <div className="input-content">
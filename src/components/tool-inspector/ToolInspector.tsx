@@ -0,0 +1,122 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./tool-inspector.scss";
+
+import cn from "classnames";
+import {
+  ToolRequest,
+  useToolRequestsStore,
+} from "../../lib/store-tool-requests";
+
+// base64 media would drown everything else
+const MAX_STRING_LENGTH = 200;
+
+const formatJSON = (value: unknown) =>
+  JSON.stringify(
+    value,
+    (key, v) =>
+      typeof v === "string" && v.length > MAX_STRING_LENGTH
+        ? `${v.slice(0, MAX_STRING_LENGTH)}… (${v.length} characters)`
+        : v,
+    "  "
+  );
+
+const formatDuration = ({ startedAt, finishedAt }: ToolRequest) =>
+  finishedAt
+    ? `${((finishedAt.getTime() - startedAt.getTime()) / 1000).toFixed(1)}s`
+    : "running";
+
+const Section = ({ title, value }: { title: string; value: unknown }) => (
+  <details className="tool-request-section">
+    <summary>{title}</summary>
+    <pre>{formatJSON(value)}</pre>
+  </details>
+);
+
+const ToolRequestEntry = ({ request }: { request: ToolRequest }) => (
+  <li className={cn("tool-request", request.status)}>
+    <header>
+      <span className="tool-request-name">
+        {request.name}
+        {request.retried && " (retry)"}
+      </span>
+      <span className="tool-request-status">{request.status}</span>
+      <span className="tool-request-timing">
+        {request.startedAt.toLocaleTimeString().slice(0, -3)} ·{" "}
+        {formatDuration(request)}
+      </span>
+      {request.cancel && (
+        <button className="tool-request-action" onClick={request.cancel}>
+          Cancel
+        </button>
+      )}
+      {request.retry && (
+        <button className="tool-request-action" onClick={request.retry}>
+          Retry
+        </button>
+      )}
+    </header>
+    {request.error && <p className="tool-request-error">{request.error}</p>}
+    <Section title="Arguments" value={request.args} />
+    {request.result !== undefined && (
+      <Section title="Result" value={request.result} />
+    )}
+    {request.responses.map((response, i) => (
+      <Section
+        key={i}
+        title={
+          request.retried
+            ? "Response (sent as a message)"
+            : response.willContinue
+            ? "Response (more to follow)"
+            : "Response"
+        }
+        value={response}
+      />
+    ))}
+  </li>
+);
+
+/**
+ * every function call of the session, newest first, with what it got and
+ * what was answered
+ */
+export default function ToolInspector() {
+  const { requests, clear } = useToolRequestsStore();
+
+  return (
+    <div className="tool-inspector">
+      {requests.length ? (
+        <>
+          <button className="tool-inspector-clear" onClick={clear}>
+            Clear
+          </button>
+          <ul>
+            {requests
+              .slice()
+              .reverse()
+              .map((request) => (
+                <ToolRequestEntry key={request.requestId} request={request} />
+              ))}
+          </ul>
+        </>
+      ) : (
+        <p className="tool-inspector-empty">No function calls yet.</p>
+      )}
+    </div>
+  );
+}
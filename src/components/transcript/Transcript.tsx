@@ -0,0 +1,58 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./transcript.scss";
+
+import cn from "classnames";
+import { useTranscriptStore } from "../../lib/store-transcript";
+
+const formatTime = (d: Date) => d.toLocaleTimeString().slice(0, -3);
+
+/**
+ * what the child said and what the speaking model answered, built from the
+ * input and output audio transcriptions
+ */
+export default function Transcript() {
+  const { entries } = useTranscriptStore();
+
+  if (!entries.length) {
+    return (
+      <div className="transcript empty">
+        Nothing has been said yet. Enable audio transcription in the settings to
+        follow the conversation here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="transcript">
+      <ul className="transcript-list">
+        {entries.map((entry, key) => (
+          <li
+            key={key}
+            className={cn("transcript-entry", entry.role, {
+              partial: !entry.finished,
+            })}
+          >
+            <span className="timestamp">{formatTime(entry.date)}</span>
+            <h4>{entry.role === "user" ? "Child" : "Model"}</h4>
+            <p>{entry.text}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./usage-panel.scss";
+
+import { useMemo } from "react";
+import {
+  sumUsage,
+  UsageSource,
+  UsageTotals,
+  useUsageStore,
+} from "../../lib/store-usage";
+
+const labels: Record<UsageSource, string> = {
+  speaking: "Speaking model",
+  function: "Function model",
+  single: "Single model",
+  media: "Media generation",
+};
+
+const labelFor = (source: UsageSource) => labels[source] || `${source} session`;
+
+const formatCost = (usd: number) =>
+  usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+const formatModalities = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .map(([modality, count]) => `${modality.toLowerCase()} ${count}`)
+    .join(", ");
+
+const UsageRow = ({
+  label,
+  totals,
+}: {
+  label: string;
+  totals: UsageTotals;
+}) => (
+  <div className="usage-row">
+    <h4>{label}</h4>
+    <dl>
+      <dt>Prompt tokens</dt>
+      <dd>
+        {totals.promptTokens}
+        {Object.keys(totals.promptTokensByModality).length > 0 && (
+          <span className="modalities">
+            {formatModalities(totals.promptTokensByModality)}
+          </span>
+        )}
+      </dd>
+      <dt>Response tokens</dt>
+      <dd>
+        {totals.responseTokens}
+        {Object.keys(totals.responseTokensByModality).length > 0 && (
+          <span className="modalities">
+            {formatModalities(totals.responseTokensByModality)}
+          </span>
+        )}
+      </dd>
+      {!!totals.videoSeconds && (
+        <>
+          <dt>Video seconds</dt>
+          <dd>{totals.videoSeconds}</dd>
+        </>
+      )}
+      <dt>Estimated cost</dt>
+      <dd>{formatCost(totals.cost)}</dd>
+    </dl>
+  </div>
+);
+
+/**
+ * running token totals and an estimated cost for the current session
+ */
+export default function UsagePanel() {
+  const { records, sessionStart, startSession } = useUsageStore();
+
+  const totals = useMemo(() => sumUsage(records), [records]);
+  const totalsBySource = useMemo(
+    () =>
+      Array.from(new Set(records.map((r) => r.source))).map((source) => ({
+        label: labelFor(source),
+        totals: sumUsage(records.filter((r) => r.source === source)),
+      })),
+    [records]
+  );
+
+  return (
+    <div className="usage-panel">
+      <header>
+        <span className="session-start">
+          Since {sessionStart.toLocaleTimeString().slice(0, -3)}
+        </span>
+        <span className="total-cost">{formatCost(totals.cost)}</span>
+        <button onClick={startSession}>Reset</button>
+      </header>
+      {totalsBySource.map(({ label, totals }) => (
+        <UsageRow key={label} label={label} totals={totals} />
+      ))}
+      <UsageRow label="Total" totals={totals} />
+      <p className="disclaimer">
+        Costs are estimates based on list prices and may differ from billing.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createContext, FC, ReactNode, useContext } from "react";
+import {
+  SessionDefinition,
+  SessionRole,
+  useSessionManager,
+  UseSessionManagerResults,
+} from "../hooks/use-session-manager";
+import { LiveClientOptions } from "../types";
+
+const SessionManagerContext = createContext<
+  UseSessionManagerResults | undefined
+>(undefined);
+
+export type SessionManagerProviderProps = {
+  children: ReactNode;
+  options: LiveClientOptions;
+  sessions: SessionDefinition[];
+};
+
+export const SessionManagerProvider: FC<SessionManagerProviderProps> = ({
+  options,
+  sessions,
+  children,
+}) => {
+  const sessionManager = useSessionManager(options, sessions);
+
+  return (
+    <SessionManagerContext.Provider value={sessionManager}>
+      {children}
+    </SessionManagerContext.Provider>
+  );
+};
+
+export const useSessionManagerContext = () => {
+  const context = useContext(SessionManagerContext);
+  if (!context) {
+    throw new Error(
+      "useSessionManagerContext must be used within a SessionManagerProvider"
+    );
+  }
+  return context;
+};
+
+export const useSession = (name: string) => {
+  const session = useSessionManagerContext().sessions.find(
+    (s) => s.name === name
+  );
+  if (!session) {
+    throw new Error(`no session named "${name}" has been registered`);
+  }
+  return session;
+};
+
+// the first session with this role
+export const useSessionByRole = (role: SessionRole) => {
+  const session = useSessionManagerContext().sessions.find(
+    (s) => s.role === role
+  );
+  if (!session) {
+    throw new Error(`no ${role} session has been registered`);
+  }
+  return session;
+};
+
+// the session that answers tool calls, the speaker when it has no tool-caller
+export const useToolSession = () => {
+  const { sessions } = useSessionManagerContext();
+  const session =
+    sessions.find((s) => s.role === "tool-caller") ||
+    sessions.find((s) => s.role === "speaker");
+  if (!session) {
+    throw new Error("no tool-caller or speaker session has been registered");
+  }
+  return session;
+};
@@ -0,0 +1,84 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createContext,
+  FC,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { ToolRegistry, ToolStub } from "../lib/tool-registry";
+
+const ToolRegistryContext = createContext<ToolRegistry | undefined>(undefined);
+
+export type ToolRegistryProviderProps = {
+  children: ReactNode;
+  registry: ToolRegistry;
+};
+
+export const ToolRegistryProvider: FC<ToolRegistryProviderProps> = ({
+  registry,
+  children,
+}) => (
+  <ToolRegistryContext.Provider value={registry}>
+    {children}
+  </ToolRegistryContext.Provider>
+);
+
+// the registry and its tools, re-rendering when they change
+export const useToolRegistry = () => {
+  const registry = useContext(ToolRegistryContext);
+  if (!registry) {
+    throw new Error(
+      "useToolRegistry must be used within a ToolRegistryProvider"
+    );
+  }
+  const [tools, setTools] = useState(registry.tools);
+
+  useEffect(() => {
+    setTools(registry.tools);
+    registry.on("change", setTools);
+    return () => {
+      registry.off("change", setTools);
+    };
+  }, [registry]);
+
+  return { registry, tools };
+};
+
+// the stubbed tools by name, and how to change them
+export const useToolStubs = () => {
+  const { registry, tools } = useToolRegistry();
+  const [stubs, setStubs] = useState(registry.stubs);
+
+  useEffect(() => {
+    setStubs(registry.stubs);
+    registry.on("stubs", setStubs);
+    return () => {
+      registry.off("stubs", setStubs);
+    };
+  }, [registry]);
+
+  const setStub = useCallback(
+    (name: string, stub?: ToolStub) => registry.setStub(name, stub),
+    [registry]
+  );
+
+  return { tools, stubs, setStub };
+};
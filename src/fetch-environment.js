@@ -0,0 +1,32 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Jest's node environment plus the fetch API of the node running it, for tests
+ * that talk to a local server. Select it with a
+ * "@jest-environment ./src/fetch-environment.js" docblock.
+ */
+
+const NodeEnvironment = require("jest-environment-node");
+
+class FetchEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    Object.assign(this.global, { fetch, Headers, Request, Response, Blob });
+  }
+}
+
+module.exports = FetchEnvironment;
@@ -1,96 +0,0 @@
-/**
- * Copyright 2024 Google LLC
- *
- * Licensed under the Apache License, Version 2.0 (the "License");
- * you may not use this file except in compliance with the License.
- * You may obtain a copy of the License at
- *
- *     http://www.apache.org/licenses/LICENSE-2.0
- *
- * Unless required by applicable law or agreed to in writing, software
- * distributed under the License is distributed on an "AS IS" BASIS,
- * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
- * See the License for the specific language governing permissions and
- * limitations under the License.
- */
-
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { GenAILiveClient } from "../lib/genai-live-client";
-import { LiveClientOptions } from "../types";
-import { LiveConnectConfig } from "@google/genai";
-
-export type UseFunctionAPIResults = {
-  client: GenAILiveClient;
-  setConfig: (config: LiveConnectConfig) => void;
-  config: LiveConnectConfig;
-  model: string;
-  setModel: (model: string) => void;
-  connected: boolean;
-  connect: () => Promise<void>;
-  disconnect: () => Promise<void>;
-};
-
-/**
- * Hook for the function-calling model.
- * This model handles speech-to-text and function calls (image/video generation).
- * It does NOT produce audio output - it only processes and calls functions.
- */
-export function useFunctionAPI(options: LiveClientOptions): UseFunctionAPIResults {
-  const client = useMemo(() => new GenAILiveClient(options), [options]);
-
-  const [model, setModel] = useState<string>("models/gemini-2.0-flash-exp");
-  const [config, setConfig] = useState<LiveConnectConfig>({});
-  const [connected, setConnected] = useState(false);
-
-  useEffect(() => {
-    const onOpen = () => {
-      setConnected(true);
-    };
-
-    const onClose = () => {
-      setConnected(false);
-    };
-
-    const onError = (error: ErrorEvent) => {
-      console.error("Function API error:", error);
-    };
-
-    client
-      .on("error", onError)
-      .on("open", onOpen)
-      .on("close", onClose);
-
-    return () => {
-      client
-        .off("error", onError)
-        .off("open", onOpen)
-        .off("close", onClose)
-        .disconnect();
-    };
-  }, [client]);
-
-  const connect = useCallback(async () => {
-    if (!config) {
-      throw new Error("config has not been set");
-    }
-    client.disconnect();
-    await client.connect(model, config);
-  }, [client, config, model]);
-
-  const disconnect = useCallback(async () => {
-    client.disconnect();
-    setConnected(false);
-  }, [setConnected, client]);
-
-  return {
-    client,
-    config,
-    setConfig,
-    model,
-    setModel,
-    connected,
-    connect,
-    disconnect,
-  };
-}
-
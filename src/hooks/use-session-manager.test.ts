@@ -0,0 +1,178 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectParameters, LiveServerMessage } from "@google/genai";
+import { act, renderHook } from "@testing-library/react";
+import { LiveTransport, LiveTransportSession } from "../lib/live-transport";
+import { SessionDefinition, useSessionManager } from "./use-session-manager";
+
+/**
+ * opens sessions right away and completes their setup on the next tick,
+ * except for the models listed in `failing`, which fail to connect
+ */
+class FakeTransport implements LiveTransport {
+  failing = new Set<string>();
+  connects: string[] = [];
+
+  async connect({ model, callbacks }: LiveConnectParameters) {
+    this.connects.push(model);
+    if (this.failing.has(model)) {
+      throw new Error(`${model} is unavailable`);
+    }
+    const session: LiveTransportSession = {
+      sendClientContent: () => {},
+      sendRealtimeInput: () => {},
+      sendToolResponse: () => {},
+      close: () => {},
+    };
+    callbacks.onopen?.();
+    // like a real socket, the setup completes after the session is handed out
+    Promise.resolve().then(() =>
+      setTimeout(() =>
+        callbacks.onmessage({ setupComplete: {} } as LiveServerMessage)
+      )
+    );
+    return session;
+  }
+}
+
+describe("useSessionManager", () => {
+  let transport: FakeTransport;
+  let options: { apiKey: string; reconnect: false; transport: FakeTransport };
+
+  const speaker: SessionDefinition = {
+    name: "speaking",
+    role: "speaker",
+    model: "models/speaker",
+  };
+  const caller: SessionDefinition = {
+    name: "function",
+    role: "tool-caller",
+    model: "models/caller",
+  };
+
+  beforeEach(() => {
+    // the speakers never get an AudioContext, no audio is played here
+    jest
+      .spyOn(window.HTMLMediaElement.prototype, "play")
+      .mockImplementation(() => new Promise(() => {}));
+    transport = new FakeTransport();
+    options = { apiKey: "", reconnect: false, transport };
+  });
+
+  const names = (sessions: { name: string }[]) => sessions.map((s) => s.name);
+
+  it("keeps registered sessions when the initial ones change", () => {
+    const observer: SessionDefinition = { name: "observer", role: "observer" };
+    const { result, rerender } = renderHook(
+      ({ sessions }) => useSessionManager(options, sessions),
+      { initialProps: { sessions: [speaker] } }
+    );
+    act(() => {
+      result.current.register(observer);
+    });
+
+    rerender({ sessions: [speaker, caller] });
+    expect(names(result.current.sessions)).toEqual([
+      "speaking",
+      "function",
+      "observer",
+    ]);
+
+    rerender({ sessions: [caller] });
+    expect(names(result.current.sessions)).toEqual(["function", "observer"]);
+  });
+
+  describe("while some sessions are down", () => {
+    const start = async () => {
+      // like options, the sessions keep their identity across renders
+      const sessions = [speaker, caller];
+      const { result } = renderHook(() => useSessionManager(options, sessions));
+      await act(() => result.current.connectAll());
+      await advance(0);
+      return result;
+    };
+    const advance = (ms: number) =>
+      act(async () => {
+        jest.advanceTimersByTime(ms);
+      });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      transport.failing.add("models/caller");
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("retries only the failed session, with a growing delay", async () => {
+      const result = await start();
+      expect(result.current.degraded).toBe(true);
+      expect(names(result.current.unavailable)).toEqual(["function"]);
+
+      transport.connects = [];
+      await advance(1999);
+      expect(transport.connects).toEqual([]);
+      await advance(1);
+      expect(transport.connects).toEqual(["models/caller"]);
+
+      // the second try waits twice as long
+      await advance(3999);
+      expect(transport.connects).toEqual(["models/caller"]);
+      await advance(1);
+      expect(transport.connects).toEqual(["models/caller", "models/caller"]);
+    });
+
+    it("leaves degraded mode once the session is back", async () => {
+      const result = await start();
+      transport.failing.clear();
+
+      await advance(2000);
+      await advance(0);
+      expect(result.current.degraded).toBe(false);
+      expect(result.current.unavailable).toEqual([]);
+      expect(result.current.sessions.map(({ status }) => status.state)).toEqual(
+        ["ready", "ready"]
+      );
+    });
+
+    it("gives up after five tries", async () => {
+      const result = await start();
+      transport.connects = [];
+
+      for (const delay of [2000, 4000, 8000, 16000, 30000]) {
+        await advance(delay);
+      }
+      expect(transport.connects).toHaveLength(5);
+
+      await advance(60000);
+      expect(transport.connects).toHaveLength(5);
+      expect(names(result.current.unavailable)).toEqual(["function"]);
+    });
+
+    it("stops retrying after disconnectAll", async () => {
+      const result = await start();
+      transport.connects = [];
+
+      await act(() => result.current.disconnectAll());
+      await advance(60000);
+      expect(transport.connects).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectConfig, UsageMetadata } from "@google/genai";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AudioStreamer } from "../lib/audio-streamer";
+import { GenAILiveClient, isSessionOpen } from "../lib/genai-live-client";
+import { useLatencyStore } from "../lib/store-latency";
+import { useUsageStore } from "../lib/store-usage";
+import { audioContext } from "../lib/utils";
+import VolMeterWorket from "../lib/worklets/vol-meter";
+import { LatencyMetric, LiveClientOptions, SessionStatus } from "../types";
+
+/**
+ * what a session is for: the speaker's audio is played back, the tool-caller
+ * answers function calls and an observer only listens along
+ */
+export type SessionRole = "speaker" | "tool-caller" | "observer";
+
+// the streams ControlTray routes to a session
+export type SessionInput = "audio" | "video" | "text";
+
+export type SessionDefinition = {
+  // unique, also used to label usage, latency and captures
+  name: string;
+  // shown on its status chip, defaults to the capitalized name
+  label?: string;
+  role: SessionRole;
+  model?: string;
+  config?: LiveConnectConfig;
+  // defaults to all of them
+  inputs?: SessionInput[];
+};
+
+export type ManagedSession = {
+  name: string;
+  label: string;
+  role: SessionRole;
+  inputs: SessionInput[];
+  client: GenAILiveClient;
+  model: string;
+  setModel: (model: string) => void;
+  config: LiveConnectConfig;
+  // takes the new config or, like useState, a function of the current one
+  setConfig: (
+    config:
+      | LiveConnectConfig
+      | ((config: LiveConnectConfig) => LiveConnectConfig)
+  ) => void;
+  status: SessionStatus;
+  connected: boolean;
+  connect: () => Promise<void>;
+  disconnect: () => Promise<void>;
+};
+
+export type UseSessionManagerResults = {
+  sessions: ManagedSession[];
+  // adds a session at runtime, returns a function that removes it again
+  register: (definition: SessionDefinition) => () => void;
+  // the open sessions that subscribe to an input
+  subscribers: (input: SessionInput) => ManagedSession[];
+  // connectAll was called and at least one session is open
+  connected: boolean;
+  // connected, but some sessions are down and being retried
+  degraded: boolean;
+  // the sessions that are down while the others keep going
+  unavailable: ManagedSession[];
+  // resolves once every session has opened or failed
+  connectAll: () => Promise<void>;
+  disconnectAll: () => Promise<void>;
+  // output volume of the speakers
+  volume: number;
+  // whether the speakers are playing the model's voice right now
+  isPlaying: () => boolean;
+};
+
+const DEFAULT_MODEL = "models/gemini-2.0-flash-exp";
+// backoff for reopening a failed session while the others are up
+const RETRY_INITIAL_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 30000;
+// after that many failed tries a session stays unavailable until connectAll
+const RETRY_MAX_ATTEMPTS = 5;
+const allInputs: SessionInput[] = ["audio", "video", "text"];
+
+type SessionSettings = { model: string; config: LiveConnectConfig };
+
+const defaultSettings = (definition?: SessionDefinition): SessionSettings => ({
+  model: definition?.model || DEFAULT_MODEL,
+  config: definition?.config || {},
+});
+
+export function useSessionManager(
+  options: LiveClientOptions,
+  initialSessions: SessionDefinition[]
+): UseSessionManagerResults {
+  const [definitions, setDefinitions] = useState(initialSessions);
+  const [settings, setSettings] = useState<Record<string, SessionSettings>>({});
+  const [statuses, setStatuses] = useState<Record<string, SessionStatus>>({});
+  const [volume, setVolume] = useState(0);
+  // between connectAll and disconnectAll, failed sessions are retried
+  const [active, setActive] = useState(false);
+  // failed retries per session, reset once it is ready again
+  const [retries, setRetries] = useState<Record<string, number>>({});
+  const audioStreamerRef = useRef<AudioStreamer | null>(null);
+  const clientsRef = useRef({
+    options,
+    clients: new Map<string, GenAILiveClient>(),
+  });
+  // the listeners of every client in use, removed when its session goes away
+  const wiredRef = useRef(new Map<GenAILiveClient, () => void>());
+
+  // a new set of sessions from the caller replaces the previous set, the
+  // ones added with register() stay and win over an initial one of that name
+  const initialSessionsRef = useRef(initialSessions);
+  useEffect(() => {
+    const previous = initialSessionsRef.current;
+    if (previous === initialSessions) {
+      return;
+    }
+    initialSessionsRef.current = initialSessions;
+    setDefinitions((definitions) => {
+      const registered = definitions.filter((d) => !previous.includes(d));
+      const names = new Set(registered.map(({ name }) => name));
+      return [
+        ...initialSessions.filter(({ name }) => !names.has(name)),
+        ...registered,
+      ];
+    });
+  }, [initialSessions]);
+
+  // one client per session name, kept for as long as the session is defined
+  const clients = useMemo(() => {
+    const previous =
+      clientsRef.current.options === options
+        ? clientsRef.current.clients
+        : new Map<string, GenAILiveClient>();
+    const next = new Map<string, GenAILiveClient>();
+    definitions.forEach(({ name }) => {
+      next.set(name, previous.get(name) || new GenAILiveClient(options));
+    });
+    clientsRef.current = { options, clients: next };
+    return next;
+  }, [definitions, options]);
+
+  // register audio for streaming server -> speakers
+  useEffect(() => {
+    if (!audioStreamerRef.current) {
+      audioContext({ id: "audio-out" }).then((audioCtx: AudioContext) => {
+        audioStreamerRef.current = new AudioStreamer(audioCtx);
+        audioStreamerRef.current
+          .addWorklet<any>("vumeter-out", VolMeterWorket, (ev: any) => {
+            setVolume(ev.data.volume);
+          })
+          .then(() => {
+            // Successfully added worklet
+          });
+      });
+    }
+  }, [audioStreamerRef]);
+
+  // listen to new clients, disconnect the ones whose session is gone
+  useEffect(() => {
+    const wired = wiredRef.current;
+    const current = new Set(clients.values());
+    wired.forEach((unwire, client) => {
+      if (!current.has(client)) {
+        unwire();
+        wired.delete(client);
+      }
+    });
+    definitions.forEach(({ name, role }) => {
+      const client = clients.get(name)!;
+      if (!wired.has(client)) {
+        wired.set(client, wireSession(name, role, client));
+      }
+    });
+  }, [definitions, clients]);
+
+  useEffect(() => {
+    const wired = wiredRef.current;
+    return () => {
+      wired.forEach((unwire) => unwire());
+      wired.clear();
+    };
+  }, []);
+
+  /**
+   * routes a client's events to the stores and, for speakers, the speakers
+   */
+  function wireSession(
+    name: string,
+    role: SessionRole,
+    client: GenAILiveClient
+  ) {
+    const { record: recordUsage } = useUsageStore.getState();
+    const { record: recordLatency } = useLatencyStore.getState();
+
+    const onError = (error: ErrorEvent) => {
+      console.error(`[${name}] error`, error);
+    };
+
+    const onStatus = (status: SessionStatus) => {
+      if (status.state === "ready") {
+        setRetries(({ [name]: _, ...retries }) => retries);
+      }
+      setStatuses((statuses) => ({ ...statuses, [name]: status }));
+    };
+    onStatus(client.status);
+
+    const onUsage = (usage: UsageMetadata) =>
+      recordUsage(name, client.model || "", usage);
+
+    const onLatency = (metric: LatencyMetric, ms: number) =>
+      recordLatency(name, metric, ms);
+
+    const stopAudioStreamer = () => audioStreamerRef.current?.stop();
+
+    const onAudio = (data: ArrayBuffer) => {
+      const streamer = audioStreamerRef.current;
+      if (streamer) {
+        streamer.onPlaybackStart = (ms) =>
+          recordLatency(name, "audio-to-playback", ms);
+        streamer.addPCM16(new Uint8Array(data));
+      }
+    };
+
+    client
+      .on("error", onError)
+      .on("statuschange", onStatus)
+      .on("usage", onUsage)
+      .on("latency", onLatency);
+    // only speakers are heard
+    if (role === "speaker") {
+      client.on("interrupted", stopAudioStreamer).on("audio", onAudio);
+    }
+
+    return () => {
+      client
+        .off("error", onError)
+        .off("statuschange", onStatus)
+        .off("usage", onUsage)
+        .off("latency", onLatency)
+        .off("interrupted", stopAudioStreamer)
+        .off("audio", onAudio)
+        .disconnect();
+    };
+  }
+
+  // setters keep their identity across renders, like the ones of useState
+  const definitionsRef = useRef(definitions);
+  definitionsRef.current = definitions;
+  const settersRef = useRef(
+    new Map<string, Pick<ManagedSession, "setModel" | "setConfig">>()
+  );
+  const settersFor = useCallback((name: string) => {
+    let setters = settersRef.current.get(name);
+    if (!setters) {
+      const update = (
+        changes: (current: SessionSettings) => Partial<SessionSettings>
+      ) =>
+        setSettings((settings) => {
+          const definition = definitionsRef.current.find(
+            (d) => d.name === name
+          );
+          const current = settings[name] || defaultSettings(definition);
+          return {
+            ...settings,
+            [name]: { ...current, ...changes(current) },
+          };
+        });
+      setters = {
+        setModel: (model) => update(() => ({ model })),
+        setConfig: (config) =>
+          update((current) => ({
+            config:
+              typeof config === "function" ? config(current.config) : config,
+          })),
+      };
+      settersRef.current.set(name, setters);
+    }
+    return setters;
+  }, []);
+
+  const sessions: ManagedSession[] = useMemo(
+    () =>
+      definitions.map((definition) => {
+        const { name, label, role, inputs } = definition;
+        const client = clients.get(name)!;
+        const { model, config } = settings[name] || defaultSettings(definition);
+        const status = statuses[name] || client.status;
+        return {
+          name,
+          label: label || name.charAt(0).toUpperCase() + name.slice(1),
+          role,
+          inputs: inputs || allInputs,
+          client,
+          model,
+          config,
+          ...settersFor(name),
+          status,
+          connected: isSessionOpen(status),
+          connect: async () => {
+            client.disconnect();
+            await client.connect(model, config);
+          },
+          disconnect: async () => {
+            client.disconnect();
+          },
+        };
+      }),
+    [definitions, clients, settings, statuses, settersFor]
+  );
+
+  const register = useCallback((definition: SessionDefinition) => {
+    setDefinitions((definitions) => [
+      ...definitions.filter(({ name }) => name !== definition.name),
+      definition,
+    ]);
+    return () =>
+      setDefinitions((definitions) =>
+        definitions.filter((d) => d !== definition)
+      );
+  }, []);
+
+  const subscribers = useCallback(
+    (input: SessionInput) =>
+      sessions.filter((s) => s.connected && s.inputs.includes(input)),
+    [sessions]
+  );
+
+  const connectAll = useCallback(async () => {
+    setRetries({});
+    setActive(true);
+    // a session that fails is reported by its status and retried below
+    await Promise.allSettled(sessions.map((s) => s.connect()));
+  }, [sessions]);
+
+  const disconnectAll = useCallback(async () => {
+    setActive(false);
+    await Promise.all(sessions.map((s) => s.disconnect()));
+  }, [sessions]);
+
+  const connected = active && sessions.some((s) => s.connected);
+  const unavailable = connected ? sessions.filter((s) => !s.connected) : [];
+
+  // while the others are up, reopen only the sessions that failed, with a
+  // growing delay. Every failed try counts in `retries`, which schedules the
+  // next one even when the status never left "failed" in between
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  const failed = sessions
+    .filter(({ status }) => status.state === "failed")
+    .map(({ name }) => name)
+    .join(",");
+  useEffect(() => {
+    if (!connected || !failed) {
+      return;
+    }
+    const timeouts = failed
+      .split(",")
+      .filter((name) => (retries[name] || 0) < RETRY_MAX_ATTEMPTS)
+      .map((name) => {
+        const attempt = retries[name] || 0;
+        const delay = Math.min(
+          RETRY_INITIAL_DELAY_MS * 2 ** attempt,
+          RETRY_MAX_DELAY_MS
+        );
+        return window.setTimeout(() => {
+          const session = sessionsRef.current.find((s) => s.name === name);
+          if (session?.status.state !== "failed") {
+            return;
+          }
+          console.log(
+            `[SessionManager] retrying ${name}, attempt ${attempt + 1}`
+          );
+          session.connect().catch(() => {
+            if (attempt + 1 === RETRY_MAX_ATTEMPTS) {
+              console.log(`[SessionManager] giving up on ${name}`);
+            }
+            setRetries((retries) => ({ ...retries, [name]: attempt + 1 }));
+          });
+        }, delay);
+      });
+    return () => timeouts.forEach((timeout) => clearTimeout(timeout));
+  }, [connected, failed, retries]);
+
+  const isPlaying = useCallback(
+    () => audioStreamerRef.current?.playing ?? false,
+    []
+  );
+
+  return {
+    sessions,
+    register,
+    subscribers,
+    connected,
+    degraded: unavailable.length > 0,
+    unavailable,
+    connectAll,
+    disconnectAll,
+    volume,
+    isPlaying,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useState } from "react";
+import { GenAILiveClient } from "../lib/genai-live-client";
+import { SessionStatus } from "../types";
+
+/**
+ * the current status of a client's session, re-rendering on every change
+ */
+export function useSessionStatus(client: GenAILiveClient): SessionStatus {
+  const [status, setStatus] = useState<SessionStatus>(client.status);
+
+  useEffect(() => {
+    setStatus(client.status);
+    client.on("statuschange", setStatus);
+    return () => {
+      client.off("statuschange", setStatus);
+    };
+  }, [client]);
+
+  return status;
+}
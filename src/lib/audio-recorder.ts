@@ -14,22 +14,24 @@
  * limitations under the License.
  */
 
-import { audioContext } from "./utils";
+import { arrayBufferToBase64, audioContext } from "./utils";
 import AudioRecordingWorklet from "./worklets/audio-processing";
 import VolMeterWorket from "./worklets/vol-meter";
 
 import { createWorketFromSrc } from "./audioworklet-registry";
 import EventEmitter from "eventemitter3";
 
-function arrayBufferToBase64(buffer: ArrayBuffer) {
-  var binary = "";
-  var bytes = new Uint8Array(buffer);
-  var len = bytes.byteLength;
-  for (var i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return window.btoa(binary);
-}
+// volume above which the mic counts as speech, and how long it has to stay
+// below it before the speech is over
+const SPEECH_VOLUME_THRESHOLD = 0.015;
+const SPEECH_END_SILENCE_MS = 400;
+
+// keep the model's own voice from the speakers out of the mic
+export const defaultCaptureConstraints: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
 
 export class AudioRecorder extends EventEmitter {
   stream: MediaStream | undefined;
@@ -40,8 +42,14 @@ export class AudioRecorder extends EventEmitter {
   vuWorklet: AudioWorkletNode | undefined;
 
   private starting: Promise<void> | null = null;
+  // performance.now() of the last loud volume reading while speaking
+  private lastSpeechAt: number | null = null;
 
-  constructor(public sampleRate = 16000) {
+  constructor(
+    public sampleRate = 16000,
+    // applied the next time the recorder starts
+    public constraints: MediaTrackConstraints = defaultCaptureConstraints
+  ) {
     super();
   }
 
@@ -51,7 +59,9 @@ export class AudioRecorder extends EventEmitter {
     }
 
     this.starting = new Promise(async (resolve, reject) => {
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: this.constraints,
+      });
       this.audioContext = await audioContext({ sampleRate: this.sampleRate });
       this.source = this.audioContext.createMediaStreamSource(this.stream);
 
@@ -83,6 +93,7 @@ export class AudioRecorder extends EventEmitter {
       this.vuWorklet = new AudioWorkletNode(this.audioContext, vuWorkletName);
       this.vuWorklet.port.onmessage = (ev: MessageEvent) => {
         this.emit("volume", ev.data.volume);
+        this.detectSpeechEnd(ev.data.volume);
       };
 
       this.source.connect(this.vuWorklet);
@@ -92,6 +103,23 @@ export class AudioRecorder extends EventEmitter {
     });
   }
 
+  /**
+   * emits "speechend" with the time the user went quiet, a rough local
+   * stand-in for the server's activity detection used to measure latency
+   */
+  private detectSpeechEnd(volume: number) {
+    const now = performance.now();
+    if (volume > SPEECH_VOLUME_THRESHOLD) {
+      this.lastSpeechAt = now;
+    } else if (
+      this.lastSpeechAt !== null &&
+      now - this.lastSpeechAt > SPEECH_END_SILENCE_MS
+    ) {
+      this.emit("speechend", this.lastSpeechAt);
+      this.lastSpeechAt = null;
+    }
+  }
+
   stop() {
     // its plausible that stop would be called before start completes
     // such as if the websocket immediately hangs up
@@ -36,6 +36,10 @@ export class AudioStreamer {
   private endOfQueueAudioSource: AudioBufferSourceNode | null = null;
 
   public onComplete = () => {};
+  // called once per stream with the ms from its first chunk to being audible
+  public onPlaybackStart = (delayMs: number) => {};
+  // performance.now() of the first chunk of a stream that is not scheduled yet
+  private firstChunkAt: number | null = null;
 
   constructor(public context: AudioContext) {
     this.gainNode = this.context.createGain();
@@ -44,6 +48,13 @@ export class AudioStreamer {
     this.addPCM16 = this.addPCM16.bind(this);
   }
 
+  /**
+   * whether scheduled audio is still coming out of the speakers
+   */
+  get playing() {
+    return this.scheduledTime > this.context.currentTime;
+  }
+
   async addWorklet<T extends (d: any) => void>(
     workletName: string,
     workletSrc: string,
@@ -118,6 +129,7 @@ export class AudioStreamer {
     // Start playing if not already playing.
     if (!this.isPlaying) {
       this.isPlaying = true;
+      this.firstChunkAt = performance.now();
       // Initialize scheduledTime only when we start playing
       this.scheduledTime = this.context.currentTime + this.initialBufferTime;
       this.scheduleNextBuffer();
@@ -183,6 +195,14 @@ export class AudioStreamer {
       // Ensure we never schedule in the past
       const startTime = Math.max(this.scheduledTime, this.context.currentTime);
       source.start(startTime);
+      if (this.firstChunkAt !== null) {
+        this.onPlaybackStart(
+          performance.now() -
+            this.firstChunkAt +
+            (startTime - this.context.currentTime) * 1000
+        );
+        this.firstChunkAt = null;
+      }
       this.scheduledTime = startTime + audioBuffer.duration;
     }
 
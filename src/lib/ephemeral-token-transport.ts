@@ -0,0 +1,43 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectParameters } from "@google/genai";
+import { LiveTransport, LiveTransportSession } from "./live-transport";
+import { TokenProvider } from "./token-provider";
+import { toSetupMessage, WebSocketTransport } from "./websocket-transport";
+
+const CONSTRAINED_URL =
+  "wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContentConstrained";
+
+/**
+ * Opens Live API sessions with a single-use ephemeral token instead of the API
+ * key. Every connection, including reconnects, takes a fresh token locked to
+ * the session's model and config.
+ */
+export class EphemeralTokenTransport implements LiveTransport {
+  constructor(private tokenProvider: TokenProvider) {}
+
+  async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    // the resumption handle changes with every reconnect, so it isn't locked
+    const { sessionResumption, ...setup } = toSetupMessage(
+      params.model,
+      params.config
+    ).setup;
+    const token = await this.tokenProvider.takeToken(setup);
+    const url = `${CONSTRAINED_URL}?access_token=${encodeURIComponent(token)}`;
+    return new WebSocketTransport({ url }).connect(params);
+  }
+}
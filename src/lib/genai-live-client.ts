@@ -16,22 +16,40 @@
 
 import {
   Content,
-  GoogleGenAI,
   LiveCallbacks,
   LiveClientToolResponse,
   LiveConnectConfig,
+  LiveSendRealtimeInputParameters,
   LiveServerContent,
   LiveServerMessage,
   LiveServerToolCall,
   LiveServerToolCallCancellation,
   Part,
-  Session,
+  Transcription,
+  UsageMetadata,
 } from "@google/genai";
 
 import { EventEmitter } from "eventemitter3";
 import { difference } from "lodash";
-import { LiveClientOptions, StreamingLog } from "../types";
+import {
+  LatencyMetric,
+  LiveClientOptions,
+  RealtimeStats,
+  RealtimeStream,
+  ReconnectOptions,
+  SessionStatus,
+  StreamingLog,
+  TranscriptionTurn,
+} from "../types";
 import { base64ToArrayBuffer } from "./utils";
+import {
+  LiveTransport,
+  LiveTransportSession,
+  SDKTransport,
+} from "./live-transport";
+import { CaptureEntry, SessionRecorder } from "./session-recorder";
+import { EphemeralTokenTransport } from "./ephemeral-token-transport";
+import { formatCounts, OutboundKind, OutboundQueue } from "./outbound-queue";
 
 /**
  * Event types that can be emitted by the MultimodalLiveClient.
@@ -46,14 +64,26 @@ export interface LiveClientEventTypes {
   content: (data: LiveServerContent) => void;
   // Emitted when an error occurs
   error: (error: ErrorEvent) => void;
+  // Emitted when the server announces it will end the session soon
+  goaway: (timeLeft?: string) => void;
+  // Emitted with the merged transcription of the user's speech
+  inputtranscription: (transcription: TranscriptionTurn) => void;
   // Emitted when the server interrupts the current generation
   interrupted: () => void;
+  // Emitted with each latency measurement
+  latency: (metric: LatencyMetric, ms: number) => void;
   // Emitted for logging events
   log: (log: StreamingLog) => void;
   // Emitted when the connection opens
   open: () => void;
+  // Emitted with the merged transcription of the model's speech
+  outputtranscription: (transcription: TranscriptionTurn) => void;
+  // Emitted when a dropped connection is about to be resumed
+  reconnecting: (attempt: number, delayMs: number) => void;
   // Emitted when the initial setup is complete
   setupcomplete: () => void;
+  // Emitted whenever the session moves to another state
+  statuschange: (status: SessionStatus, previous: SessionStatus) => void;
   // Emitted when a tool call is received
   toolcall: (toolCall: LiveServerToolCall) => void;
   // Emitted when a tool call is cancelled
@@ -62,22 +92,67 @@ export interface LiveClientEventTypes {
   ) => void;
   // Emitted when the current turn is complete
   turncomplete: () => void;
+  // Emitted with the token counts the server reports for a response
+  usage: (usage: UsageMetadata) => void;
 }
 
+/**
+ * whether the session is set up or on its way there, i.e. the user is in a
+ * conversation
+ */
+export function isSessionOpen({ state }: SessionStatus) {
+  return (
+    state === "setting-up" || state === "ready" || state === "reconnecting"
+  );
+}
+
+const emptyRealtimeStats = (): RealtimeStats => ({
+  audio: { chunks: 0, bytes: 0 },
+  video: { chunks: 0, bytes: 0 },
+  text: { chunks: 0, bytes: 0 },
+});
+
+// size of the data a base64 string encodes
+const base64Bytes = (data: string) =>
+  Math.floor((data.length * 3) / 4) - (data.match(/=*$/)?.[0].length || 0);
+
+const defaultReconnectOptions: Required<ReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
 /**
  * A event-emitting class that manages the connection to the websocket and emits
  * events to the rest of the application.
  * If you dont want to use react you can still use this.
  */
 export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
-  protected client: GoogleGenAI;
+  protected transport: LiveTransport;
 
-  private _status: "connected" | "disconnected" | "connecting" = "disconnected";
+  private _status: SessionStatus = { state: "idle" };
   public get status() {
     return this._status;
   }
 
-  private _session: Session | null = null;
+  private setStatus(status: SessionStatus) {
+    const previous = this._status;
+    if (JSON.stringify(previous) === JSON.stringify(status)) {
+      return;
+    }
+    this._status = status;
+    this.log(
+      "client.status",
+      status.state === "failed"
+        ? `failed: ${status.reason}`
+        : status.state === "reconnecting"
+        ? `reconnecting (attempt ${status.attempt})`
+        : status.state
+    );
+    this.emit("statuschange", status, previous);
+  }
+
+  private _session: LiveTransportSession | null = null;
   public get session() {
     return this._session;
   }
@@ -93,9 +168,74 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     return { ...this.config };
   }
 
-  constructor(options: LiveClientOptions) {
+  // latest handle from `sessionResumptionUpdate`, replayed on reconnect
+  private resumptionHandle: string | null = null;
+  private reconnectOptions: Required<ReconnectOptions> | null;
+  private reconnectAttempts = 0;
+  private reconnectTimeout: number | null = null;
+  private reconnecting = false;
+  // incremented for every websocket we open so callbacks of stale sockets can be ignored
+  private connectionId = 0;
+  private seamlessHandover: boolean;
+  // the session being replaced while a handover is in flight
+  private pendingHandover: {
+    session: LiveTransportSession;
+    connectionId: number;
+    // set when that session closed before the replacement took over
+    closeEvent?: CloseEvent;
+  } | null = null;
+
+  // messages sent before the session completed its setup
+  private queue: OutboundQueue;
+  // set once the current session has completed its setup
+  private ready = false;
+
+  // when set, every outgoing call and incoming message is captured
+  public recorder: SessionRecorder | null = null;
+
+  private _stats: RealtimeStats = emptyRealtimeStats();
+  /**
+   * chunks and bytes sent per realtime input stream since connect
+   */
+  public get stats(): RealtimeStats {
+    return {
+      audio: { ...this._stats.audio },
+      video: { ...this._stats.video },
+      text: { ...this._stats.text },
+    };
+  }
+
+  // when the user last stopped speaking, cleared by the first audio answer
+  private speechEndedAt: number | null = null;
+  // when each pending tool call arrived, keyed by call id
+  private toolCallsReceivedAt = new Map<string, number>();
+  // set while a replayed message is handled, see `replay`
+  private replaying = false;
+
+  // partial transcriptions of the current turn, keyed by direction
+  private transcripts: Record<"input" | "output", string> = {
+    input: "",
+    output: "",
+  };
+
+  constructor({
+    reconnect,
+    seamlessHandover = false,
+    transport,
+    tokenProvider,
+    outboundQueue,
+    ...options
+  }: LiveClientOptions) {
     super();
-    this.client = new GoogleGenAI(options);
+    this.transport =
+      transport ||
+      (tokenProvider
+        ? new EphemeralTokenTransport(tokenProvider)
+        : new SDKTransport(options));
+    this.seamlessHandover = seamlessHandover;
+    this.queue = new OutboundQueue(outboundQueue);
+    this.reconnectOptions =
+      reconnect === false ? null : { ...defaultReconnectOptions, ...reconnect };
     this.send = this.send.bind(this);
     this.onopen = this.onopen.bind(this);
     this.onerror = this.onerror.bind(this);
@@ -112,45 +252,214 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     this.emit("log", log);
   }
 
+  /**
+   * opens a new session, resolving false if one is already open or it was
+   * disconnected meanwhile, and rejecting when it could not be opened
+   */
   async connect(model: string, config: LiveConnectConfig): Promise<boolean> {
-    if (this._status === "connected" || this._status === "connecting") {
+    if (isSessionOpen(this._status) || this._status.state === "connecting") {
       return false;
     }
 
-    this._status = "connecting";
+    this.setStatus({ state: "connecting" });
     this.config = config;
     this._model = model;
+    // a fresh connect starts a new conversation
+    this.resumptionHandle = null;
+    this.transcripts = { input: "", output: "" };
+    this._stats = emptyRealtimeStats();
+    this.speechEndedAt = null;
+    this.toolCallsReceivedAt.clear();
+    this.reconnectAttempts = 0;
+    this.clearQueue();
+
+    const opened = await this.openSession();
+    if (!opened && this._status.state === "failed") {
+      throw new Error(this._status.reason);
+    }
+    return opened;
+  }
 
+  /**
+   * opens a websocket for the current model and config, resuming the previous
+   * session if the server handed us a resumption handle
+   */
+  private async openSession(handover = false): Promise<boolean> {
+    const connectionId = ++this.connectionId;
+    // the transport rejects for sockets that close before opening
+    let opened = false;
     const callbacks: LiveCallbacks = {
-      onopen: this.onopen,
+      onopen: () => {
+        opened = true;
+        this.onopen();
+      },
       onmessage: this.onmessage,
       onerror: this.onerror,
-      onclose: this.onclose,
+      onclose: (e: CloseEvent) => opened && this.onclose(e, connectionId),
+    };
+
+    const config: LiveConnectConfig = {
+      ...this.config,
+      sessionResumption: {
+        ...this.config?.sessionResumption,
+        handle: this.resumptionHandle ?? undefined,
+      },
     };
 
     try {
-      this._session = await this.client.live.connect({
-        model,
+      const session = await this.transport.connect({
+        model: this._model!,
         config,
         callbacks,
       });
-    } catch (e) {
+      if (
+        connectionId !== this.connectionId ||
+        (handover && !this.pendingHandover)
+      ) {
+        // disconnect() was called while we were connecting
+        session.close();
+        return false;
+      }
+      this._session = session;
+      // hold outgoing messages until this session's setupComplete
+      this.ready = false;
+    } catch (e: unknown) {
       console.error("Error connecting to GenAI Live:", e);
-      this._status = "disconnected";
+      if (handover || connectionId !== this.connectionId) {
+        return false;
+      }
+      if (this.reconnecting) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus({
+          state: "failed",
+          reason:
+            (e instanceof Error && e.message) || "could not open the session",
+        });
+      }
       return false;
     }
 
-    this._status = "connected";
+    // a seamless handover stays ready while the replacement sets up
+    if (!handover) {
+      this.setStatus({ state: "setting-up" });
+    }
     return true;
   }
 
+  /**
+   * opens a replacement session with the resumption handle while the current
+   * one is still alive, then moves all outgoing traffic over to it
+   */
+  private async handOver() {
+    if (this.pendingHandover || !this._session) {
+      return;
+    }
+    if (!this.resumptionHandle) {
+      this.log("client.handover", "no resumption handle, waiting for close");
+      return;
+    }
+
+    const previous = this._session;
+    this.pendingHandover = {
+      session: previous,
+      connectionId: this.connectionId,
+    };
+    this.log("client.handover", "opening replacement session");
+
+    const ok = await this.openSession(true);
+    if (ok) {
+      this.pendingHandover = null;
+      previous.close();
+      this.log("client.handover", "switched to replacement session");
+    } else if (this.pendingHandover) {
+      this.log("client.handover", "replacement session failed");
+      this.abandonHandover();
+    }
+  }
+
+  /**
+   * goes back to the session a failed handover was meant to replace, handling
+   * its close now if it closed while the replacement was opening
+   */
+  private abandonHandover() {
+    const { connectionId, closeEvent } = this.pendingHandover!;
+    this.pendingHandover = null;
+    this.connectionId = connectionId;
+    if (closeEvent) {
+      this.onclose(closeEvent, connectionId);
+    }
+  }
+
+  private scheduleReconnect(closeEvent?: CloseEvent) {
+    const options = this.reconnectOptions;
+    if (!options || this.reconnectAttempts >= options.maxAttempts) {
+      this.log(
+        "client.reconnect",
+        `giving up after ${this.reconnectAttempts} attempts`
+      );
+      this.reconnecting = false;
+      this.setStatus({
+        state: "failed",
+        reason:
+          closeEvent?.reason ||
+          `reconnect failed after ${this.reconnectAttempts} attempts`,
+      });
+      this.emit(
+        "close",
+        closeEvent || new CloseEvent("close", { reason: "reconnect failed" })
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      options.initialDelayMs * 2 ** this.reconnectAttempts,
+      options.maxDelayMs
+    );
+    this.reconnectAttempts++;
+    this.reconnecting = true;
+    this.setStatus({ state: "reconnecting", attempt: this.reconnectAttempts });
+
+    this.log(
+      "client.reconnect",
+      `attempt ${this.reconnectAttempts} in ${delay}ms${
+        this.resumptionHandle ? " (resuming session)" : ""
+      }`
+    );
+    this.emit("reconnecting", this.reconnectAttempts, delay);
+
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.openSession();
+    }, delay);
+  }
+
   public disconnect() {
+    const wasOpening = this.reconnecting || this._status.state === "connecting";
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnecting = false;
+    this.pendingHandover = null;
+    this.ready = false;
+    this.clearQueue();
+
     if (!this.session) {
+      if (wasOpening) {
+        // invalidate the socket that may still be opening
+        this.connectionId++;
+        this.setStatus({ state: "idle" });
+        this.log("client.close", `Disconnected`);
+        return true;
+      }
+      this.setStatus({ state: "idle" });
       return false;
     }
+    // idle once the socket reports it closed
+    this.setStatus({ state: "closing" });
     this.session?.close();
     this._session = null;
-    this._status = "disconnected";
 
     this.log("client.close", `Disconnected`);
     return true;
@@ -166,27 +475,93 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     this.emit("error", e);
   }
 
-  protected onclose(e: CloseEvent) {
+  protected onclose(e: CloseEvent, connectionId = this.connectionId) {
     this.log(
       `server.close`,
       `disconnected ${e.reason ? `with reason: ${e.reason}` : ``}`
     );
+    if (connectionId !== this.connectionId) {
+      if (connectionId === this.pendingHandover?.connectionId) {
+        // the replacement is still opening, it decides what happens next
+        this.pendingHandover.closeEvent = e;
+      }
+      // a socket we have already replaced
+      return;
+    }
+    // the session is still set when the server dropped us rather than disconnect()
+    if ((this._session || this.reconnecting) && this.reconnectOptions) {
+      this._session = null;
+      this.ready = false;
+      this.scheduleReconnect(e);
+      return;
+    }
+    this._session = null;
+    this.setStatus(
+      this._status.state === "closing"
+        ? { state: "idle" }
+        : { state: "failed", reason: e.reason || "connection closed" }
+    );
+    this.ready = false;
+    this.clearQueue();
     this.emit("close", e);
   }
 
   protected async onmessage(message: LiveServerMessage) {
+    this.recorder?.record("in", "serverMessage", message);
+    // usage can ride along with any other message
+    if (message.usageMetadata) {
+      this.emit("usage", message.usageMetadata);
+      if (Object.keys(message).length === 1) {
+        return;
+      }
+    }
     if (message.setupComplete) {
       this.log("server.send", "setupComplete");
+      this.reconnecting = false;
+      this.reconnectAttempts = 0;
+      this.ready = true;
+      this.setStatus({ state: "ready" });
+      this.flushQueue();
       this.emit("setupcomplete");
       return;
     }
+    if (message.sessionResumptionUpdate) {
+      const { newHandle, resumable } = message.sessionResumptionUpdate;
+      if (resumable && newHandle) {
+        this.resumptionHandle = newHandle;
+      }
+      this.log("server.sessionResumptionUpdate", `resumable: ${!!resumable}`);
+      return;
+    }
+    if (message.goAway) {
+      const { timeLeft } = message.goAway;
+      this.log("server.goAway", `time left: ${timeLeft || "unknown"}`);
+      this.emit("goaway", timeLeft);
+      if (this.seamlessHandover && !this.replaying) {
+        this.handOver();
+      }
+      return;
+    }
     if (message.toolCall) {
       this.log("server.toolCall", message);
+      if (this.replaying) {
+        return;
+      }
+      const now = performance.now();
+      message.toolCall.functionCalls?.forEach(
+        ({ id }) => id && this.toolCallsReceivedAt.set(id, now)
+      );
       this.emit("toolcall", message.toolCall);
       return;
     }
     if (message.toolCallCancellation) {
       this.log("server.toolCallCancellation", message);
+      if (this.replaying) {
+        return;
+      }
+      message.toolCallCancellation.ids?.forEach((id) =>
+        this.toolCallsReceivedAt.delete(id)
+      );
       this.emit("toolcallcancellation", message.toolCallCancellation);
       return;
     }
@@ -195,12 +570,23 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     // or contentUpdate { end_of_turn: true }
     if (message.serverContent) {
       const { serverContent } = message;
+      if (serverContent.inputTranscription) {
+        this.addTranscription("input", serverContent.inputTranscription);
+      }
+      if (serverContent.outputTranscription) {
+        // the model answering means the user's turn is over
+        this.finishTranscription("input");
+        this.addTranscription("output", serverContent.outputTranscription);
+      }
       if ("interrupted" in serverContent) {
+        this.finishTranscription("output");
         this.log("server.content", "interrupted");
         this.emit("interrupted");
         return;
       }
       if ("turnComplete" in serverContent) {
+        this.finishTranscription("input");
+        this.finishTranscription("output");
         this.log("server.content", "turnComplete");
         this.emit("turncomplete");
       }
@@ -221,6 +607,13 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
         base64s.forEach((b64) => {
           if (b64) {
             const data = base64ToArrayBuffer(b64);
+            if (this.speechEndedAt !== null) {
+              this.measure(
+                "speech-to-audio",
+                performance.now() - this.speechEndedAt
+              );
+              this.speechEndedAt = null;
+            }
             this.emit("audio", data);
             this.log(`server.audio`, `buffer (${data.byteLength})`);
           }
@@ -240,35 +633,217 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     }
   }
 
+  /**
+   * merges a partial transcription into the current turn and emits the text so far
+   */
+  private addTranscription(
+    direction: "input" | "output",
+    { text, finished }: Transcription
+  ) {
+    if (text) {
+      this.transcripts[direction] += text;
+    }
+    if (finished) {
+      this.finishTranscription(direction);
+      return;
+    }
+    if (this.transcripts[direction]) {
+      this.emit(`${direction}transcription`, {
+        text: this.transcripts[direction],
+        finished: false,
+      });
+    }
+  }
+
+  private finishTranscription(direction: "input" | "output") {
+    const text = this.transcripts[direction].trim();
+    this.transcripts[direction] = "";
+    if (!text) {
+      return;
+    }
+    this.log(`server.${direction}Transcription`, text);
+    this.emit(`${direction}transcription`, { text, finished: true });
+  }
+
+  /**
+   * feeds the incoming messages of a capture through onmessage, keeping their
+   * original timing relative to `startTime`. Tool calls are logged but never
+   * reach the "toolcall" listeners, so no real tool runs; the recorded tool
+   * responses are logged in their place. Returns a function to cancel.
+   */
+  replay(entries: CaptureEntry[], startTime = entries[0]?.t): () => void {
+    const incoming = entries.filter((entry) => entry.direction === "in");
+    const responses = entries.filter((entry) => entry.kind === "toolResponse");
+    this.log(`client.replay`, `replaying ${incoming.length} messages`);
+    const delay = (entry: CaptureEntry) => Math.max(0, entry.t - startTime);
+    const timeouts = [
+      ...incoming.map((entry) =>
+        window.setTimeout(() => {
+          this.replaying = true;
+          try {
+            this.onmessage(entry.payload as LiveServerMessage);
+          } finally {
+            this.replaying = false;
+          }
+        }, delay(entry))
+      ),
+      ...responses.map((entry) =>
+        window.setTimeout(
+          () => this.log(`client.toolResponse`, entry.payload),
+          delay(entry)
+        )
+      ),
+    ];
+    return () => timeouts.forEach((id) => clearTimeout(id));
+  }
+
+  /**
+   * sends right away once the session is set up, queues while it is still
+   * connecting, setting up or reconnecting, and drops when disconnected
+   * @returns whether the message was sent or queued
+   */
+  private dispatch(kind: OutboundKind, send: () => void): boolean {
+    if (this._session && this.ready) {
+      send();
+      return true;
+    }
+    if (!isSessionOpen(this._status) && this._status.state !== "connecting") {
+      return false;
+    }
+    if (this.queue.size === 0) {
+      this.log("client.queue", "holding messages until setup completes");
+    }
+    const queued = this.queue.push(kind, send);
+    if (!queued && this.queue.full) {
+      this.log("client.queue", `queue full, dropped ${kind}`);
+    }
+    return queued;
+  }
+
+  private flushQueue() {
+    if (this.queue.size === 0) {
+      return;
+    }
+    const { sent, dropped } = this.queue.flush();
+    this.log(
+      "client.queue",
+      `flushed ${formatCounts(sent) || "nothing"}${
+        Object.keys(dropped).length ? `, dropped ${formatCounts(dropped)}` : ""
+      }`
+    );
+  }
+
+  private clearQueue() {
+    const dropped = this.queue.clear();
+    if (Object.keys(dropped).length) {
+      this.log("client.queue", `dropped ${formatCounts(dropped)}`);
+    }
+  }
+
+  /**
+   * send a base64 chunk of "audio/pcm" on the audio stream
+   */
+  sendAudio(data: string, mimeType = "audio/pcm;rate=16000") {
+    this.sendRealtime(
+      "audio",
+      { audio: { mimeType, data } },
+      base64Bytes(data)
+    );
+  }
+
+  /**
+   * send a base64 "image/jpeg" frame on the video stream
+   */
+  sendVideoFrame(data: string, mimeType = "image/jpeg") {
+    this.sendRealtime(
+      "video",
+      { video: { mimeType, data } },
+      base64Bytes(data)
+    );
+  }
+
+  /**
+   * send text on the realtime text stream, the model treats it like speech
+   * rather than as a turn of the conversation
+   */
+  sendRealtimeText(text: string) {
+    this.sendRealtime("text", { text }, new Blob([text]).size, `text: ${text}`);
+  }
+
   /**
    * send realtimeInput, this is base64 chunks of "audio/pcm" and/or "image/jpg"
+   * @deprecated use sendAudio and sendVideoFrame
    */
   sendRealtimeInput(chunks: Array<{ mimeType: string; data: string }>) {
-    let hasAudio = false;
-    let hasVideo = false;
     for (const ch of chunks) {
-      this.session?.sendRealtimeInput({ media: ch });
       if (ch.mimeType.includes("audio")) {
-        hasAudio = true;
-      }
-      if (ch.mimeType.includes("image")) {
-        hasVideo = true;
-      }
-      if (hasAudio && hasVideo) {
-        break;
+        this.sendAudio(ch.data, ch.mimeType);
+      } else if (ch.mimeType.includes("image")) {
+        this.sendVideoFrame(ch.data, ch.mimeType);
       }
     }
-    const message =
-      hasAudio && hasVideo
-        ? "audio + video"
-        : hasAudio
-        ? "audio"
-        : hasVideo
-        ? "video"
-        : "unknown";
+  }
+
+  private sendRealtime(
+    stream: RealtimeStream,
+    input: LiveSendRealtimeInputParameters,
+    bytes: number,
+    message: string = stream
+  ) {
+    if (!this.dispatch(stream, () => this.session?.sendRealtimeInput(input))) {
+      return;
+    }
+    this.recorder?.record("out", "realtimeInput", input);
+    this._stats[stream].chunks++;
+    this._stats[stream].bytes += bytes;
     this.log(`client.realtimeInput`, message);
   }
 
+  /**
+   * marks the start of the user's speech, for sessions connected with
+   * `realtimeInputConfig.automaticActivityDetection.disabled`
+   */
+  sendActivityStart() {
+    this.sendSignal("activityStart", { activityStart: {} });
+  }
+
+  /**
+   * marks the end of the user's speech, the counterpart of sendActivityStart
+   */
+  sendActivityEnd() {
+    this.sendSignal("activityEnd", { activityEnd: {} });
+    this.markSpeechEnd();
+  }
+
+  /**
+   * notes when the user stopped speaking, the first model audio after it
+   * completes a "speech-to-audio" measurement
+   * @param at a `performance.now()` timestamp
+   */
+  markSpeechEnd(at = performance.now()) {
+    this.speechEndedAt = at;
+  }
+
+  private measure(metric: LatencyMetric, ms: number) {
+    this.log("client.latency", `${metric}: ${Math.round(ms)}ms`);
+    this.emit("latency", metric, ms);
+  }
+
+  /**
+   * tells the server the audio stream paused, e.g. because the mic was muted,
+   * so it can flush what it buffered. Only meaningful with automatic activity
+   * detection; sending audio again reopens the stream.
+   */
+  endAudioStream() {
+    this.sendSignal("audioStreamEnd", { audioStreamEnd: true });
+  }
+
+  private sendSignal(name: string, input: LiveSendRealtimeInputParameters) {
+    this.dispatch("signal", () => this.session?.sendRealtimeInput(input));
+    this.recorder?.record("out", "realtimeInput", input);
+    this.log(`client.realtimeInput`, name);
+  }
+
   /**
    *  send a response to a function call and provide the id of the functions you are responding to
    */
@@ -277,9 +852,19 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
       toolResponse.functionResponses &&
       toolResponse.functionResponses.length
     ) {
-      this.session?.sendToolResponse({
-        functionResponses: toolResponse.functionResponses,
+      const { functionResponses } = toolResponse;
+      const now = performance.now();
+      functionResponses.forEach(({ id }) => {
+        const receivedAt = id && this.toolCallsReceivedAt.get(id);
+        if (receivedAt) {
+          this.toolCallsReceivedAt.delete(id!);
+          this.measure("tool-response", now - receivedAt);
+        }
       });
+      this.dispatch("toolResponse", () =>
+        this.session?.sendToolResponse({ functionResponses })
+      );
+      this.recorder?.record("out", "toolResponse", toolResponse);
       this.log(`client.toolResponse`, toolResponse);
     }
   }
@@ -288,7 +873,13 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
    * send normal content parts such as { text }
    */
   send(parts: Part | Part[], turnComplete: boolean = true) {
-    this.session?.sendClientContent({ turns: parts, turnComplete });
+    this.dispatch("text", () =>
+      this.session?.sendClientContent({ turns: parts, turnComplete })
+    );
+    this.recorder?.record("out", "clientContent", {
+      turns: parts,
+      turnComplete,
+    });
     this.log(`client.send`, {
       turns: Array.isArray(parts) ? parts : [parts],
       turnComplete,
@@ -0,0 +1,82 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  GoogleGenAI,
+  GoogleGenAIOptions,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from "@google/genai";
+
+/**
+ * An open bidirectional session, the SDK's `Session` satisfies this.
+ */
+export interface LiveTransportSession {
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * What GenAILiveClient uses to open sessions. Resolves once the socket is open,
+ * after which `callbacks` receive every server message, and rejects when the
+ * socket errors or closes before that.
+ */
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveTransportSession>;
+}
+
+/**
+ * The default transport, talks to the Live API through the GenAI SDK.
+ */
+export class SDKTransport implements LiveTransport {
+  private client: GoogleGenAI;
+
+  constructor(options: GoogleGenAIOptions) {
+    this.client = new GoogleGenAI(options);
+  }
+
+  connect({
+    callbacks,
+    ...params
+  }: LiveConnectParameters): Promise<LiveTransportSession> {
+    // the SDK only settles once the socket opens
+    return new Promise((resolve, reject) => {
+      let opened = false;
+      this.client.live
+        .connect({
+          ...params,
+          callbacks: {
+            ...callbacks,
+            onopen: () => {
+              opened = true;
+              callbacks.onopen?.();
+            },
+            onclose: (e: CloseEvent) => {
+              if (!opened) {
+                reject(new Error(e.reason || "could not open the session"));
+              }
+              callbacks.onclose?.(e);
+            },
+          },
+        })
+        .then(resolve, reject);
+    });
+  }
+}
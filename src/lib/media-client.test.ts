@@ -0,0 +1,173 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ * @jest-environment ./src/fetch-environment.js
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createApp } from "../../server";
+import { close, listen } from "../test-utils";
+import { MediaClient, MediaUsage } from "./media-client";
+
+const API_KEY = "upstream-key";
+
+/**
+ * stands in for the Gemini API, answering just enough for the media routes,
+ * videos are done after `video.polls` polls
+ */
+function fakeUpstream(requests: string[], video = { polls: 2 }) {
+  let polls = 0;
+  const server: Server = createServer(
+    (req: IncomingMessage, res: ServerResponse) => {
+      const path = req.url!.split("?")[0];
+      requests.push(`${req.method} ${path}`);
+      const json = (body: unknown) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+      if (req.headers["x-goog-api-key"] !== API_KEY) {
+        res.writeHead(403);
+        res.end();
+      } else if (path.endsWith(":predictLongRunning")) {
+        json({ name: "models/veo-2.0-generate-001/operations/op1" });
+      } else if (path.endsWith("/operations/op1")) {
+        const { port } = server.address() as AddressInfo;
+        json({
+          name: "models/veo-2.0-generate-001/operations/op1",
+          done: ++polls >= video.polls,
+          response: {
+            generateVideoResponse: {
+              generatedSamples: [
+                {
+                  video: {
+                    uri: `http://localhost:${port}/v1beta/files/vid1:download?alt=media`,
+                  },
+                },
+              ],
+            },
+          },
+        });
+      } else if (path === "/v1beta/files/vid1:download") {
+        res.writeHead(200, { "Content-Type": "video/mp4" });
+        res.end("fake video");
+      } else if (path.endsWith(":generateContent")) {
+        json({
+          candidates: [
+            {
+              content: {
+                role: "model",
+                parts: [
+                  { inlineData: { mimeType: "image/png", data: "AAAA" } },
+                ],
+              },
+            },
+          ],
+          usageMetadata: { promptTokenCount: 3, totalTokenCount: 10 },
+        });
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    }
+  );
+  return server;
+}
+
+describe("MediaClient against the media proxy", () => {
+  let requests: string[];
+  let video: { polls: number };
+  let upstream: Server;
+  let proxy: Server;
+  let client: MediaClient;
+
+  beforeEach(async () => {
+    requests = [];
+    video = { polls: 2 };
+    upstream = fakeUpstream(requests, video);
+    const upstreamUrl = await listen(upstream);
+    proxy = createApp({
+      apiKey: API_KEY,
+      baseUrl: upstreamUrl,
+      pollIntervalMs: 10,
+    });
+    client = new MediaClient({ proxyUrl: `${await listen(proxy)}/media` });
+  });
+
+  afterEach(async () => {
+    await close(proxy);
+    await close(upstream);
+  });
+
+  it("polls for a video and streams it back", async () => {
+    const usage: MediaUsage[] = [];
+    client.on("usage", (u) => usage.push(u));
+
+    const { uri } = await client.generateVideo("a cat");
+    expect(uri).toMatch(/\/media\/video\/vid1\/content$/);
+    expect(usage).toEqual([
+      { model: "models/veo-2.0-generate-001", videoSeconds: 8 },
+    ]);
+
+    const video = await client.downloadVideo(uri);
+    expect(await video.text()).toBe("fake video");
+    expect(requests).toEqual([
+      "POST /v1beta/models/veo-2.0-generate-001:predictLongRunning",
+      "GET /v1beta/models/veo-2.0-generate-001/operations/op1",
+      "GET /v1beta/models/veo-2.0-generate-001/operations/op1",
+      "GET /v1beta/files/vid1:download",
+    ]);
+  });
+
+  it("stops polling when the video job is abandoned", async () => {
+    video.polls = Infinity;
+    const abort = new AbortController();
+    const polled = new Promise<void>((resolve) => {
+      const check = setInterval(() => {
+        if (requests.some((r) => r.includes("/operations/"))) {
+          clearInterval(check);
+          resolve();
+        }
+      }, 5);
+    });
+
+    const generating = client.generateVideo(
+      "a cat",
+      undefined,
+      undefined,
+      abort.signal
+    );
+    await polled;
+    abort.abort();
+    await expect(generating).rejects.toThrow();
+
+    // give the proxy a few poll intervals to notice
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const polls = requests.length;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(requests.length).toBe(polls);
+  });
+
+  it("returns generated images with their usage", async () => {
+    const usage: MediaUsage[] = [];
+    client.on("usage", (u) => usage.push(u));
+
+    const result = await client.generateImage("a cat");
+    expect(result.candidates?.[0].content?.parts?.[0].inlineData?.data).toBe(
+      "AAAA"
+    );
+    expect(usage[0].usageMetadata?.totalTokenCount).toBe(10);
+  });
+});
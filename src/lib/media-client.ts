@@ -14,18 +14,135 @@
  * limitations under the License.
  */
 
-import { GoogleGenAI } from "@google/genai";
+import {
+    GenerateContentResponse,
+    GenerateContentResponseUsageMetadata,
+    GoogleGenAI,
+} from "@google/genai";
+import { EventEmitter } from "eventemitter3";
 
 //export const MODEL_VEO = "veo-3.1-generate-preview";
 export const MODEL_VEO = "models/veo-2.0-generate-001";
 export const MODEL_NANO_BANANA_PRO = "nano-banana-pro-preview";
 export const MODEL_TTS = "gemini-2.5-flash-preview-tts";
 
-export class MediaClient {
-    private client: GoogleGenAI;
+// Veo bills per second and does not report the length back
+const DEFAULT_VIDEO_SECONDS = 8;
 
-    constructor(apiKey: string) {
-        this.client = new GoogleGenAI({ apiKey });
+export type MediaUsage = {
+    model: string;
+    usageMetadata?: GenerateContentResponseUsageMetadata;
+    videoSeconds?: number;
+};
+
+/**
+ * Targets the /media routes of our own backend (server/media.ts), which holds
+ * the key and does the polling.
+ */
+export type MediaProxy = {
+    // where the media routes are mounted, e.g. "/media"
+    proxyUrl: string;
+};
+
+/**
+ * either a Gemini API key or our backend. Ephemeral tokens only open Live API
+ * sessions, so token mode generates media through the backend.
+ */
+export type MediaAuth = string | MediaProxy;
+
+/**
+ * waits between polls, rejecting as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(abortError());
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// the same error fetch rejects with when its signal aborts
+function abortError() {
+    return new DOMException('The media request was cancelled.', 'AbortError');
+}
+
+export interface MediaClientEventTypes {
+    // Emitted after every successful call with what it consumed
+    usage: (usage: MediaUsage) => void;
+}
+
+export class MediaClient extends EventEmitter<MediaClientEventTypes> {
+    private client: GoogleGenAI | null = null;
+    private proxyUrl: string | null = null;
+
+    constructor(private auth: MediaAuth) {
+        super();
+        if (typeof auth === 'string') {
+            this.client = new GoogleGenAI({ apiKey: auth });
+        } else if ('proxyUrl' in auth) {
+            this.proxyUrl = auth.proxyUrl.replace(/\/$/, '');
+        }
+    }
+
+    private credential(): string {
+        if (typeof this.auth !== 'string') {
+            throw new Error('No credential in proxy mode');
+        }
+        return this.auth;
+    }
+
+    /**
+     * Posts to a media route of the backend and returns its JSON answer.
+     */
+    private async post(path: string, body: unknown, signal?: AbortSignal): Promise<any> {
+        const response = await fetch(`${this.proxyUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const { error } = await response.json().catch(() => ({}));
+            throw new Error(error || `Media request failed: ${response.status} ${response.statusText}`);
+        }
+        return response.json();
+    }
+
+    /**
+     * The SDK client, only there when calling the API with a key.
+     */
+    private async genai(): Promise<GoogleGenAI> {
+        if (!this.client) {
+            throw new Error('No SDK client in proxy mode');
+        }
+        return this.client;
+    }
+
+    /**
+     * Downloads a generated video, authenticating with a header so the
+     * credential never ends up in a URL.
+     * @param uri The URI returned by generateVideo.
+     * @returns The video contents.
+     */
+    async downloadVideo(uri: string): Promise<Blob> {
+        // the backend streams the video with its own key
+        const response = await fetch(uri, this.proxyUrl ? undefined : {
+            headers: { 'x-goog-api-key': this.credential() },
+        });
+        if (!response.ok) {
+            throw new Error(`Failed to download video: ${response.status} ${response.statusText}`);
+        }
+        return response.blob();
     }
 
     /**
@@ -33,17 +150,18 @@ export class MediaClient {
      * @param prompt The text prompt for video generation.
      * @param imageBase64 Optional base64-encoded image to use as a starting frame.
      * @param imageMimeType Optional MIME type of the image (e.g., "image/png", "image/jpeg").
-     * @param apiKey API key needed to fetch the video from the URI.
-     * @returns Object containing the video URI and URL for viewing.
+     * @param signal Optional signal that stops the polling when the job is abandoned.
+     * @returns Object containing the video URI, fetch it with downloadVideo.
      */
     async generateVideo(
         prompt: string,
         imageBase64?: string,
         imageMimeType?: string,
-        apiKey?: string
+        signal?: AbortSignal
     ) {
         const config: any = {
             numberOfVideos: 1,
+            abortSignal: signal,
         };
 
         const generateVideoPayload: any = {
@@ -69,15 +187,37 @@ export class MediaClient {
             };
         }
 
+        if (this.proxyUrl) {
+            console.log('Submitting video generation request to the backend...');
+            // the backend stops polling when this request goes away
+            const { id, mimeType } = await this.post('/video', {
+                prompt: generateVideoPayload.prompt,
+                image: generateVideoPayload.image,
+            }, signal);
+            this.emit('usage', {
+                model: MODEL_VEO,
+                videoSeconds: DEFAULT_VIDEO_SECONDS,
+            });
+            const uri = `${this.proxyUrl}/video/${encodeURIComponent(id)}/content`;
+            return {
+                uri: uri,
+                video: { uri, mimeType },
+            };
+        }
+
+        const client = await this.genai();
         console.log('Submitting video generation request...', generateVideoPayload);
-        let operation = await this.client.models.generateVideos(generateVideoPayload);
+        let operation = await client.models.generateVideos(generateVideoPayload);
         console.log('Video generation operation started:', operation);
 
         // Poll until the operation is done
         while (!operation.done) {
-            await new Promise((resolve) => setTimeout(resolve, 10000));
+            await sleep(10000, signal);
             console.log('...Generating...');
-            operation = await this.client.operations.getVideosOperation({ operation: operation });
+            operation = await client.operations.getVideosOperation({
+                operation: operation,
+                config: { abortSignal: signal },
+            });
         }
 
         if (operation?.response) {
@@ -92,21 +232,18 @@ export class MediaClient {
                 throw new Error('Generated video is missing a URI.');
             }
 
+            this.emit('usage', {
+                model: MODEL_VEO,
+                videoSeconds: config.durationSeconds || DEFAULT_VIDEO_SECONDS,
+            });
+
             const videoObject = firstVideo.video;
             // We've already checked that uri exists above
             const uri = decodeURIComponent(videoObject.uri!);
             console.log('Video generation complete. URI:', uri);
 
-            // Construct the URL with API key if provided
-            let url = uri;
-            if (apiKey && typeof apiKey === 'string') {
-                url = `${uri}&key=${apiKey}`;
-                console.log('Video generation complete. URL:', url);
-            }
-
             return {
                 uri: uri,
-                url: url,
                 video: videoObject,
             };
         } else {
@@ -118,12 +255,27 @@ export class MediaClient {
     /**
      * Generates images using the image generation model.
      * @param prompt The input prompt.
+     * @param signal Optional signal that abandons the request.
      * @returns The model response.
      */
-    async generateImage(prompt: string) {
-        const result = await this.client.models.generateContent({
+    async generateImage(prompt: string, signal?: AbortSignal) {
+        let result: GenerateContentResponse;
+        if (this.proxyUrl) {
+            result = Object.assign(
+                new GenerateContentResponse(),
+                await this.post('/image', { prompt }, signal)
+            );
+        } else {
+            const client = await this.genai();
+            result = await client.models.generateContent({
+                model: MODEL_NANO_BANANA_PRO,
+                contents: prompt,
+                config: { abortSignal: signal },
+            });
+        }
+        this.emit('usage', {
             model: MODEL_NANO_BANANA_PRO,
-            contents: prompt
+            usageMetadata: result.usageMetadata,
         });
         return result;
     }
@@ -131,16 +283,31 @@ export class MediaClient {
     /**
      * Generates speech from text using the Google TTS model.
      * @param text The text to convert to speech.
+     * @param signal Optional signal that abandons the request.
      * @returns The audio content.
      */
-    async generateSpeech(text: string) {
-        // TTS requires AUDIO response modality
-        const result = await this.client.models.generateContent({
+    async generateSpeech(text: string, signal?: AbortSignal) {
+        let result: GenerateContentResponse;
+        if (this.proxyUrl) {
+            result = Object.assign(
+                new GenerateContentResponse(),
+                await this.post('/speech', { text }, signal)
+            );
+        } else {
+            // TTS requires AUDIO response modality
+            const client = await this.genai();
+            result = await client.models.generateContent({
+                model: MODEL_TTS,
+                contents: text,
+                config: {
+                    responseModalities: ['AUDIO'],
+                    abortSignal: signal,
+                }
+            });
+        }
+        this.emit('usage', {
             model: MODEL_TTS,
-            contents: text,
-            config: {
-                responseModalities: ['AUDIO']
-            }
+            usageMetadata: result.usageMetadata,
         });
         return result;
     }
@@ -0,0 +1,92 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MicDucker } from "./mic-ducking";
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./utils";
+
+const chunk = (...samples: number[]) =>
+  arrayBufferToBase64(new Int16Array(samples).buffer);
+const samples = (base64: string) =>
+  Array.from(new Int16Array(base64ToArrayBuffer(base64)));
+
+describe("MicDucker", () => {
+  let now: number;
+  let playing: boolean;
+
+  beforeEach(() => {
+    now = 0;
+    playing = false;
+  });
+
+  const ducker = (mode: "gate" | "attenuate") =>
+    new MicDucker(
+      { mode, bargeInVolume: 0.1, bargeInHoldMs: 500, releaseMs: 200 },
+      () => playing,
+      () => now
+    );
+
+  it("passes the mic through while the model is quiet", () => {
+    const input = chunk(1000, -1000);
+    expect(ducker("gate").process(input)).toBe(input);
+  });
+
+  it("drops chunks while the model speaks and shortly after", () => {
+    const gate = ducker("gate");
+    playing = true;
+    expect(gate.process(chunk(1000))).toBeNull();
+
+    playing = false;
+    now = 100;
+    expect(gate.process(chunk(1000))).toBeNull();
+    now = 300;
+    expect(gate.process(chunk(1000))).not.toBeNull();
+  });
+
+  it("turns chunks down instead when attenuating", () => {
+    const attenuate = new MicDucker(
+      { mode: "attenuate", attenuation: 0.5 },
+      () => true,
+      () => now
+    );
+    expect(samples(attenuate.process(chunk(1000, -2000))!)).toEqual([
+      500, -1000,
+    ]);
+  });
+
+  it("lets a loud voice barge in for a while", () => {
+    const gate = ducker("gate");
+    playing = true;
+    gate.onVolume(0.05);
+    expect(gate.process(chunk(1000))).toBeNull();
+
+    gate.onVolume(0.2);
+    now = 400;
+    expect(gate.process(chunk(1000))).not.toBeNull();
+    now = 600;
+    expect(gate.process(chunk(1000))).toBeNull();
+  });
+
+  it("doesn't take the model's own voice for a barge-in", () => {
+    const gate = ducker("gate");
+    playing = true;
+    gate.onPlaybackVolume(0.3);
+    gate.onVolume(0.3);
+    expect(gate.process(chunk(1000))).toBeNull();
+
+    gate.onVolume(0.5);
+    expect(gate.process(chunk(1000))).not.toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./utils";
+
+/**
+ * what happens to mic audio while the model is speaking: "gate" drops it,
+ * "attenuate" turns it down
+ */
+export type DuckingMode = "gate" | "attenuate";
+
+export type DuckingOptions = {
+  mode: DuckingMode;
+  // mic volume loud enough to count as the child talking over the model
+  bargeInVolume?: number;
+  // how many times louder than the model's playback the mic has to be for a
+  // barge-in, so the model's voice coming back through the mic doesn't count
+  bargeInRatio?: number;
+  // how long a barge-in keeps the mic open after the last loud reading
+  bargeInHoldMs?: number;
+  // gain for attenuated audio, between 0 and 1
+  attenuation?: number;
+  // how long the mic stays ducked after playback, for the room's echo
+  releaseMs?: number;
+};
+
+/**
+ * Ducks 16 bit PCM mic chunks while the model's voice is playing so it doesn't
+ * hear itself and interrupt, unless the child is louder than the barge-in
+ * threshold. Without echo cancellation the mic picks the playback up about as
+ * loud as it is played, which is why barge-in is judged against the playback
+ * volume too.
+ */
+export class MicDucker {
+  private mode: DuckingMode;
+  private bargeInVolume: number;
+  private bargeInRatio: number;
+  private bargeInHoldMs: number;
+  private attenuation: number;
+  private releaseMs: number;
+  // performance.now() of the last moment the model was heard / barged in on
+  private lastPlayingAt = -Infinity;
+  private lastBargeInAt = -Infinity;
+  private playbackVolume = 0;
+
+  constructor(
+    {
+      mode,
+      bargeInVolume = 0.05,
+      bargeInRatio = 1.5,
+      bargeInHoldMs = 800,
+      attenuation = 0.2,
+      releaseMs = 300,
+    }: DuckingOptions,
+    private isPlaying: () => boolean,
+    private now: () => number = () => performance.now()
+  ) {
+    this.mode = mode;
+    this.bargeInVolume = bargeInVolume;
+    this.bargeInRatio = bargeInRatio;
+    this.bargeInHoldMs = bargeInHoldMs;
+    this.attenuation = attenuation;
+    this.releaseMs = releaseMs;
+  }
+
+  /**
+   * feed with the mic's volume readings to detect barge-in
+   */
+  onVolume(volume: number) {
+    const echo = this.isPlaying() ? this.playbackVolume * this.bargeInRatio : 0;
+    if (volume >= Math.max(this.bargeInVolume, echo)) {
+      this.lastBargeInAt = this.now();
+    }
+  }
+
+  /**
+   * feed with the volume readings of the model's playback
+   */
+  onPlaybackVolume(volume: number) {
+    this.playbackVolume = volume;
+  }
+
+  get ducking() {
+    const now = this.now();
+    if (this.isPlaying()) {
+      this.lastPlayingAt = now;
+    }
+    return (
+      now - this.lastPlayingAt <= this.releaseMs &&
+      now - this.lastBargeInAt > this.bargeInHoldMs
+    );
+  }
+
+  /**
+   * the chunk to send, or null to drop it
+   */
+  process(base64: string): string | null {
+    if (!this.ducking) {
+      return base64;
+    }
+    if (this.mode === "gate") {
+      return null;
+    }
+    const samples = new Int16Array(base64ToArrayBuffer(base64));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.round(samples[i] * this.attenuation);
+    }
+    return arrayBufferToBase64(samples.buffer);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Part } from "@google/genai";
+import { Orchestrator } from "./orchestrator";
+
+describe("Orchestrator", () => {
+  let sent: Part[][];
+  let orchestrator: Orchestrator;
+
+  const events = (parts: Part[]) => JSON.parse(parts[0].text!).events;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sent = [];
+    orchestrator = new Orchestrator({
+      send: (parts) => sent.push(parts),
+      debounceMs: 1000,
+      nonce: "n0nce",
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("sends events close together as one structured message", () => {
+    orchestrator.notify({ type: "started", tool: "generate_image" });
+    jest.advanceTimersByTime(500);
+    orchestrator.notify({ type: "ready", tool: "generate_image" });
+    expect(sent).toHaveLength(0);
+
+    jest.advanceTimersByTime(1000);
+    expect(sent).toHaveLength(1);
+    expect(JSON.parse(sent[0][0].text!).orchestrator).toBe("n0nce");
+    expect(events(sent[0]).map((e: any) => e.event)).toEqual([
+      "started",
+      "ready",
+    ]);
+    expect(orchestrator.audit).toEqual([
+      expect.objectContaining({ message: sent[0][0].text }),
+    ]);
+  });
+
+  it("replaces pending progress of the same request", () => {
+    const video = { tool: "generate_video", media: "video" as const };
+    orchestrator.notify({ type: "progress", requestId: "a", ...video });
+    orchestrator.notify({ type: "progress", requestId: "b", ...video });
+    orchestrator.notify({ type: "progress", requestId: "a", ...video });
+    orchestrator.notify({ type: "ready", requestId: "b", ...video });
+    orchestrator.flush();
+
+    expect(
+      orchestrator.audit[0].events.map((e) => `${e.requestId} ${e.type}`)
+    ).toEqual(["a progress", "b ready"]);
+  });
+
+  it("words events with the configured templates", () => {
+    orchestrator = new Orchestrator({
+      send: (parts) => sent.push(parts),
+      templates: { failed: ({ error }) => `Oh no: ${error}` },
+    });
+    orchestrator.notify({ type: "failed", tool: "generate_image", error: "x" });
+    orchestrator.notify({ type: "hidden", tool: "hide_media" });
+    orchestrator.flush();
+
+    expect(events(sent[0]).map((e: any) => e.note)).toEqual([
+      "Oh no: x",
+      "The screen has been cleared.",
+    ]);
+  });
+});
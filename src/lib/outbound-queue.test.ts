@@ -0,0 +1,94 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { OutboundKind, OutboundQueue } from "./outbound-queue";
+
+describe("OutboundQueue", () => {
+  let sent: string[];
+  const push = (queue: OutboundQueue, kind: OutboundKind, name: string) =>
+    queue.push(kind, () => sent.push(name));
+
+  beforeEach(() => {
+    sent = [];
+  });
+
+  it("sends kept messages in order and discards dropped kinds", () => {
+    const queue = new OutboundQueue({ policies: { video: "drop" } });
+    expect(push(queue, "text", "hello")).toBe(true);
+    expect(push(queue, "video", "frame")).toBe(false);
+    expect(push(queue, "toolResponse", "result")).toBe(true);
+
+    expect(queue.flush()).toEqual({
+      sent: { text: 1, toolResponse: 1 },
+      dropped: { video: 1 },
+    });
+    expect(sent).toEqual(["hello", "result"]);
+    expect(queue.size).toBe(0);
+  });
+
+  it("drops messages that went stale before the flush", () => {
+    const queue = new OutboundQueue();
+    push(queue, "audio", "chunk");
+    push(queue, "video", "frame");
+    push(queue, "text", "hello");
+
+    expect(queue.flush(Date.now() + 1500)).toEqual({
+      sent: { video: 1, text: 1 },
+      dropped: { audio: 1 },
+    });
+    expect(sent).toEqual(["frame", "hello"]);
+  });
+
+  it("evicts the oldest droppable message once full", () => {
+    const queue = new OutboundQueue({ maxSize: 3 });
+    push(queue, "text", "hello");
+    push(queue, "audio", "chunk 1");
+    push(queue, "audio", "chunk 2");
+    push(queue, "signal", "activityEnd");
+
+    expect(queue.size).toBe(3);
+    expect(queue.flush()).toEqual({
+      sent: { text: 1, audio: 1, signal: 1 },
+      dropped: { audio: 1 },
+    });
+    expect(sent).toEqual(["hello", "chunk 2", "activityEnd"]);
+  });
+
+  it("turns a message away rather than evicting one that has to be kept", () => {
+    const queue = new OutboundQueue({ maxSize: 2 });
+    push(queue, "text", "hello");
+    push(queue, "toolResponse", "result");
+
+    expect(queue.full).toBe(true);
+    expect(push(queue, "audio", "chunk")).toBe(false);
+    expect(push(queue, "text", "again")).toBe(false);
+    expect(queue.flush()).toEqual({
+      sent: { text: 1, toolResponse: 1 },
+      dropped: { audio: 1, text: 1 },
+    });
+    expect(sent).toEqual(["hello", "result"]);
+  });
+
+  it("reports what it discarded on clear", () => {
+    const queue = new OutboundQueue();
+    push(queue, "text", "hello");
+    push(queue, "audio", "chunk");
+
+    expect(queue.clear()).toEqual({ text: 1, audio: 1 });
+    expect(queue.flush()).toEqual({ sent: {}, dropped: {} });
+    expect(sent).toEqual([]);
+  });
+});
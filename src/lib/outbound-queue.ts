@@ -0,0 +1,148 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type OutboundKind =
+  | "text"
+  | "toolResponse"
+  | "audio"
+  | "video"
+  | "signal";
+
+/**
+ * what happens to a message of a kind while the session is not ready:
+ * "keep" queues it, "drop" discards it, `maxAgeMs` queues it but discards it
+ * at flush time if it has gone stale
+ */
+export type OutboundPolicy = "keep" | "drop" | { maxAgeMs: number };
+
+export type OutboundQueueOptions = {
+  // once full, the oldest droppable message makes room, or the new message is
+  // turned away when everything queued has to be kept
+  maxSize?: number;
+  policies?: Partial<Record<OutboundKind, OutboundPolicy>>;
+};
+
+export type OutboundCounts = Partial<Record<OutboundKind, number>>;
+
+export const defaultOutboundPolicies: Record<OutboundKind, OutboundPolicy> = {
+  text: "keep",
+  toolResponse: "keep",
+  signal: "keep",
+  audio: { maxAgeMs: 1000 },
+  video: { maxAgeMs: 2000 },
+};
+
+type QueuedMessage = {
+  kind: OutboundKind;
+  queuedAt: number;
+  send: () => void;
+};
+
+/**
+ * "text: 2, audio: 14"
+ */
+export function formatCounts(counts: OutboundCounts) {
+  return Object.entries(counts)
+    .map(([kind, count]) => `${kind}: ${count}`)
+    .join(", ");
+}
+
+/**
+ * Holds outgoing messages until the session has completed its setup, then
+ * sends them in order.
+ */
+export class OutboundQueue {
+  private messages: QueuedMessage[] = [];
+  private maxSize: number;
+  private policies: Record<OutboundKind, OutboundPolicy>;
+  private dropped: OutboundCounts = {};
+
+  constructor({ maxSize = 200, policies }: OutboundQueueOptions = {}) {
+    this.maxSize = maxSize;
+    this.policies = { ...defaultOutboundPolicies, ...policies };
+  }
+
+  get size() {
+    return this.messages.length;
+  }
+
+  get full() {
+    return this.messages.length >= this.maxSize;
+  }
+
+  /**
+   * queues `send` for the next flush, returns false if the message was dropped
+   */
+  push(kind: OutboundKind, send: () => void): boolean {
+    if (this.policies[kind] === "drop") {
+      this.drop(kind);
+      return false;
+    }
+    if (this.full) {
+      const index = this.messages.findIndex(
+        (m) => this.policies[m.kind] !== "keep"
+      );
+      if (index === -1) {
+        this.drop(kind);
+        return false;
+      }
+      const [evicted] = this.messages.splice(index, 1);
+      this.drop(evicted.kind);
+    }
+    this.messages.push({ kind, queuedAt: Date.now(), send });
+    return true;
+  }
+
+  /**
+   * sends everything still fresh, in order
+   * @returns the counts of sent and dropped messages by kind
+   */
+  flush(now = Date.now()) {
+    const messages = this.messages;
+    this.messages = [];
+    const sent: OutboundCounts = {};
+    for (const { kind, queuedAt, send } of messages) {
+      const policy = this.policies[kind];
+      if (typeof policy === "object" && now - queuedAt > policy.maxAgeMs) {
+        this.drop(kind);
+        continue;
+      }
+      send();
+      sent[kind] = (sent[kind] || 0) + 1;
+    }
+    return { sent, dropped: this.takeDropped() };
+  }
+
+  /**
+   * discards everything queued
+   * @returns the counts of dropped messages by kind
+   */
+  clear() {
+    this.messages.forEach(({ kind }) => this.drop(kind));
+    this.messages = [];
+    return this.takeDropped();
+  }
+
+  private drop(kind: OutboundKind) {
+    this.dropped[kind] = (this.dropped[kind] || 0) + 1;
+  }
+
+  private takeDropped() {
+    const dropped = this.dropped;
+    this.dropped = {};
+    return dropped;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MediaModality } from "@google/genai";
+import { estimateCost, pricingForModel } from "./pricing";
+
+describe("estimateCost", () => {
+  const usage = {
+    promptTokens: 3000,
+    responseTokens: 500,
+    promptTokensByModality: {
+      [MediaModality.TEXT]: 1000,
+      [MediaModality.AUDIO]: 2000,
+    },
+    responseTokensByModality: { [MediaModality.AUDIO]: 500 },
+  };
+
+  it("finds a model's pricing by prefix", () => {
+    expect(pricingForModel("models/gemini-2.0-flash-exp")).toBe(
+      pricingForModel("gemini-2.0-flash")
+    );
+    expect(pricingForModel("models/unknown")).toBeUndefined();
+  });
+
+  it("prices every modality at its own rate", () => {
+    // 1000 text at 0.35, 2000 audio at 2.1 in, 500 audio at 8.5 out
+    expect(estimateCost("models/gemini-2.0-flash-exp", usage)).toBeCloseTo(
+      (350 + 4200 + 4250) / 1_000_000
+    );
+  });
+
+  it("uses the default rate for modalities without their own", () => {
+    expect(
+      estimateCost("gemini-2.0-flash", {
+        ...usage,
+        responseTokensByModality: { [MediaModality.TEXT]: 500 },
+      })
+    ).toBeCloseTo((350 + 4200 + 750) / 1_000_000);
+  });
+
+  it("prices the totals when there is no modality breakdown", () => {
+    expect(
+      estimateCost("gemini-2.0-flash", {
+        ...usage,
+        promptTokensByModality: {},
+        responseTokensByModality: {},
+      })
+    ).toBeCloseTo((3000 * 0.35 + 500 * 1.5) / 1_000_000);
+  });
+
+  it("adds the generated seconds of video", () => {
+    expect(
+      estimateCost("veo-2.0-generate-001", {
+        promptTokens: 0,
+        responseTokens: 0,
+        promptTokensByModality: {},
+        responseTokensByModality: {},
+        videoSeconds: 8,
+      })
+    ).toBeCloseTo(2.8);
+  });
+
+  it("costs nothing for unknown models", () => {
+    expect(estimateCost("models/unknown", usage)).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MediaModality } from "@google/genai";
+
+/**
+ * USD per 1M tokens, per modality. Values are list prices at the time of
+ * writing and only used to give an estimate of what a session costs.
+ */
+type TokenRates = Partial<Record<MediaModality, number>> & { default: number };
+
+export type ModelPricing = {
+  input: TokenRates;
+  output: TokenRates;
+  // USD per generated second of video
+  videoSecond?: number;
+};
+
+const modelPricing: Record<string, ModelPricing> = {
+  "gemini-2.0-flash": {
+    input: {
+      default: 0.35,
+      [MediaModality.AUDIO]: 2.1,
+      [MediaModality.VIDEO]: 2.1,
+      [MediaModality.IMAGE]: 2.1,
+    },
+    output: { default: 1.5, [MediaModality.AUDIO]: 8.5 },
+  },
+  "nano-banana-pro": {
+    input: { default: 2 },
+    output: { default: 12, [MediaModality.IMAGE]: 120 },
+  },
+  "gemini-2.5-flash-preview-tts": {
+    input: { default: 0.5 },
+    output: { default: 10 },
+  },
+  "veo-2.0": {
+    input: { default: 0 },
+    output: { default: 0 },
+    videoSecond: 0.35,
+  },
+  "veo-3.1": {
+    input: { default: 0 },
+    output: { default: 0 },
+    videoSecond: 0.4,
+  },
+};
+
+/**
+ * finds the pricing for a model by prefix, e.g. "models/gemini-2.0-flash-exp"
+ * is billed as "gemini-2.0-flash"
+ */
+export function pricingForModel(model: string): ModelPricing | undefined {
+  const name = model.replace(/^models\//, "");
+  const key = Object.keys(modelPricing).find((prefix) =>
+    name.startsWith(prefix)
+  );
+  return key ? modelPricing[key] : undefined;
+}
+
+const rate = (rates: TokenRates, modality?: string) =>
+  rates[modality as MediaModality] ?? rates.default;
+
+export type CostInput = {
+  promptTokens: number;
+  responseTokens: number;
+  promptTokensByModality: Record<string, number>;
+  responseTokensByModality: Record<string, number>;
+  videoSeconds?: number;
+};
+
+/**
+ * estimated cost in USD, or 0 when we don't know the model
+ */
+export function estimateCost(model: string, usage: CostInput): number {
+  const pricing = pricingForModel(model);
+  if (!pricing) {
+    return 0;
+  }
+
+  const tokensCost = (
+    total: number,
+    byModality: Record<string, number>,
+    rates: TokenRates
+  ) => {
+    const entries = Object.entries(byModality);
+    if (!entries.length) {
+      return total * rates.default;
+    }
+    return entries.reduce(
+      (sum, [modality, count]) => sum + count * rate(rates, modality),
+      0
+    );
+  };
+
+  return (
+    (tokensCost(
+      usage.promptTokens,
+      usage.promptTokensByModality,
+      pricing.input
+    ) +
+      tokensCost(
+        usage.responseTokens,
+        usage.responseTokensByModality,
+        pricing.output
+      )) /
+      1_000_000 +
+    (usage.videoSeconds || 0) * (pricing.videoSecond || 0)
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveServerToolCall } from "@google/genai";
+import { fake, FakeLiveServer } from "../../server/fake-live-server";
+import { GenAILiveClient } from "./genai-live-client";
+import { StreamingLog } from "../types";
+import { parseJSONL, SessionRecorder, toJSONL } from "./session-recorder";
+import { WebSocketTransport } from "./websocket-transport";
+
+describe("SessionRecorder", () => {
+  let server: FakeLiveServer;
+
+  beforeEach(() => {
+    server = new FakeLiveServer([
+      {
+        on: "clientContent",
+        text: "draw a cat",
+        reply: [
+          { message: fake.modelText("drawing") },
+          { message: fake.toolCall("generate_image", { prompt: "a cat" }) },
+        ],
+      },
+    ]);
+  });
+
+  afterEach(() => server.close());
+
+  it("replays a recorded session from its JSONL", async () => {
+    const client = new GenAILiveClient({
+      apiKey: "",
+      reconnect: false,
+      transport: new WebSocketTransport({ url: await server.listen() }),
+    });
+    client.recorder = new SessionRecorder("function");
+    const toolCall = new Promise<LiveServerToolCall>((resolve) =>
+      client.once("toolcall", resolve)
+    );
+    await client.connect("models/gemini-2.0-flash-exp", {});
+    client.send({ text: "please draw a cat" });
+    const { functionCalls = [] } = await toolCall;
+    const toolResponse = {
+      functionResponses: functionCalls.map(({ id, name }) => ({
+        id,
+        name,
+        response: { output: "a cat" },
+      })),
+    };
+    client.sendToolResponse(toolResponse);
+    client.disconnect();
+
+    const entries = parseJSONL(toJSONL(client.recorder.entries));
+    expect(entries).toEqual(client.recorder.entries);
+    expect(
+      entries.map(({ direction, kind }) => `${direction} ${kind}`)
+    ).toEqual([
+      "out clientContent",
+      "in serverMessage",
+      "in serverMessage",
+      "in serverMessage",
+      "out toolResponse",
+    ]);
+
+    const replayed = new GenAILiveClient({ apiKey: "", reconnect: false });
+    const content: unknown[] = [];
+    const toolCalls: unknown[] = [];
+    const logs: StreamingLog[] = [];
+    replayed.on("content", (data) => content.push(data));
+    replayed.on("toolcall", (data) => toolCalls.push(data));
+    replayed.on("log", (log) => logs.push(log));
+    const replayedResponse = new Promise<void>((resolve) =>
+      replayed.on("log", ({ type }) => {
+        if (type === "client.toolResponse") {
+          resolve();
+        }
+      })
+    );
+    replayed.replay(entries);
+    await replayedResponse;
+
+    // replayed tool calls are only logged, the real tools never run
+    expect(toolCalls).toEqual([]);
+    expect(logs.map(({ type }) => type)).toEqual(
+      expect.arrayContaining(["server.toolCall", "client.toolResponse"])
+    );
+    expect(
+      logs.find(({ type }) => type === "client.toolResponse")?.message
+    ).toEqual(toolResponse);
+    expect(content).toEqual([{ modelTurn: { parts: [{ text: "drawing" }] } }]);
+  });
+
+  it("rejects lines that aren't capture entries", () => {
+    const entry = JSON.stringify({
+      t: 1,
+      session: "speaking",
+      direction: "in",
+      kind: "serverMessage",
+      payload: { setupComplete: {} },
+    });
+
+    expect(parseJSONL(`${entry}\n\n${entry}\n`)).toHaveLength(2);
+    expect(() => parseJSONL(`${entry}\n\n{"t": 2`)).toThrow(
+      "Invalid capture entry on line 3"
+    );
+    expect(() => parseJSONL(`${entry}\n{"t": 2, "payload": {}}`)).toThrow(
+      "Invalid capture entry on line 2"
+    );
+    expect(() => parseJSONL("42")).toThrow("Invalid capture entry on line 1");
+  });
+});
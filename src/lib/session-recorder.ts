@@ -0,0 +1,97 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Records everything a GenAILiveClient sends and receives so a session can be
+ * saved as JSONL and fed back through the client later.
+ */
+
+export type CaptureDirection = "in" | "out";
+
+export type CaptureKind =
+  | "clientContent"
+  | "realtimeInput"
+  | "toolResponse"
+  | "serverMessage";
+
+export type CaptureEntry = {
+  // epoch milliseconds
+  t: number;
+  // which client recorded it, e.g. "speaking" or "function"
+  session: string;
+  direction: CaptureDirection;
+  kind: CaptureKind;
+  payload: any;
+};
+
+export class SessionRecorder {
+  public entries: CaptureEntry[] = [];
+
+  constructor(public session: string) {}
+
+  record(direction: CaptureDirection, kind: CaptureKind, payload: any) {
+    this.entries.push({
+      t: Date.now(),
+      session: this.session,
+      direction,
+      kind,
+      payload,
+    });
+  }
+}
+
+/**
+ * one JSON entry per line, ordered by time
+ */
+export function toJSONL(entries: CaptureEntry[]): string {
+  return [...entries]
+    .sort((a, b) => a.t - b.t)
+    .map((entry) => JSON.stringify(entry))
+    .join("\n");
+}
+
+const isCaptureEntry = (value: any): value is CaptureEntry =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof value.t === "number" &&
+  typeof value.session === "string" &&
+  (value.direction === "in" || value.direction === "out") &&
+  typeof value.kind === "string" &&
+  "payload" in value;
+
+/**
+ * reads what toJSONL wrote, skipping blank lines and throwing on the first
+ * line that isn't a capture entry
+ */
+export function parseJSONL(jsonl: string): CaptureEntry[] {
+  const entries: CaptureEntry[] = [];
+  jsonl.split("\n").forEach((line, i) => {
+    if (!line.trim()) {
+      return;
+    }
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch (e) {
+      entry = null;
+    }
+    if (!isCaptureEntry(entry)) {
+      throw new Error(`Invalid capture entry on line ${i + 1}`);
+    }
+    entries.push(entry);
+  });
+  return entries;
+}
@@ -0,0 +1,38 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+
+/**
+ * "split" runs a speaking model and a separate function model, "single" one
+ * model that talks and calls the functions
+ */
+export type Architecture = "split" | "single";
+
+export const architectureLabels: Record<Architecture, string> = {
+  split: "Speaker + tool-caller",
+  single: "Single model",
+};
+
+interface StoreArchitectureState {
+  architecture: Architecture;
+  setArchitecture: (architecture: Architecture) => void;
+}
+
+export const useArchitectureStore = create<StoreArchitectureState>((set) => ({
+  architecture: "split",
+  setArchitecture: (architecture) => set({ architecture }),
+}));
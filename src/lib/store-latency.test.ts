@@ -0,0 +1,74 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  LatencySample,
+  percentile,
+  summarizeLatency,
+  useLatencyStore,
+} from "./store-latency";
+
+const samples = (...values: number[]): LatencySample[] =>
+  values.map((ms) => ({ source: "speaking", metric: "speech-to-audio", ms }));
+
+describe("summarizeLatency", () => {
+  it("has no percentiles without samples", () => {
+    expect(summarizeLatency([])).toEqual({
+      count: 0,
+      p50: NaN,
+      p90: NaN,
+      p99: NaN,
+    });
+  });
+
+  it("uses the only sample for every percentile", () => {
+    expect(summarizeLatency(samples(120))).toEqual({
+      count: 1,
+      p50: 120,
+      p90: 120,
+      p99: 120,
+    });
+  });
+
+  it("takes the nearest rank of an even count, in any order", () => {
+    expect(summarizeLatency(samples(400, 100, 300, 200))).toEqual({
+      count: 4,
+      p50: 200,
+      p90: 400,
+      p99: 400,
+    });
+    expect(percentile([400, 100, 300, 200], 25)).toBe(100);
+    expect(percentile([400, 100, 300, 200], 0)).toBe(100);
+  });
+});
+
+describe("useLatencyStore", () => {
+  const store = useLatencyStore;
+
+  it("records into the newest session and drops unused ones", () => {
+    store.getState().startSession("two models");
+    store.getState().record("speaking", "speech-to-audio", 300);
+    store.getState().startSession("single model");
+    store.getState().startSession("single model");
+
+    const { sessions } = store.getState();
+    expect(sessions.map(({ label }) => label).slice(-2)).toEqual([
+      "two models",
+      "single model",
+    ]);
+    expect(sessions[sessions.length - 2].samples).toEqual(samples(300));
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { LatencyMetric } from "../types";
+
+// sessions kept for comparison, oldest are dropped first
+const MAX_SESSIONS = 10;
+
+// the name of the live session that measured it
+export type LatencySource = string;
+
+export type LatencySample = {
+  source: LatencySource;
+  metric: LatencyMetric;
+  ms: number;
+};
+
+export type LatencySession = {
+  startedAt: Date;
+  // what was measured, e.g. the architecture, to compare sessions
+  label?: string;
+  samples: LatencySample[];
+};
+
+export type LatencySummary = {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+};
+
+/**
+ * nearest-rank percentile of `values`, `p` between 0 and 100
+ */
+export function percentile(values: number[], p: number) {
+  if (!values.length) {
+    return NaN;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+export function summarizeLatency(samples: LatencySample[]): LatencySummary {
+  const values = samples.map(({ ms }) => ms);
+  return {
+    count: values.length,
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p99: percentile(values, 99),
+  };
+}
+
+interface StoreLatencyState {
+  // newest last, samples are recorded into the last one
+  sessions: LatencySession[];
+  record: (source: LatencySource, metric: LatencyMetric, ms: number) => void;
+  startSession: (label?: string) => void;
+}
+
+export const useLatencyStore = create<StoreLatencyState>((set) => ({
+  sessions: [{ startedAt: new Date(), samples: [] }],
+  record: (source, metric, ms) =>
+    set((state) => {
+      const sessions = state.sessions.slice();
+      const current = sessions[sessions.length - 1];
+      sessions[sessions.length - 1] = {
+        ...current,
+        samples: [...current.samples, { source, metric, ms }],
+      };
+      return { sessions };
+    }),
+  startSession: (label) =>
+    set((state) => ({
+      sessions: [
+        // an unused session is replaced rather than kept
+        ...state.sessions
+          .filter(({ samples }) => samples.length)
+          .slice(-(MAX_SESSIONS - 1)),
+        { startedAt: new Date(), label, samples: [] },
+      ],
+    })),
+}));
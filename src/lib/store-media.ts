@@ -0,0 +1,69 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+
+export type MediaDisplay = {
+  type: "video" | "image";
+  url: string; // Blob URL for video or data URI for image
+  visible: boolean;
+};
+
+export type GeneratedMedia = "image" | "video";
+
+export type GeneratedVideo = {
+  uri: string;
+  // set once it has been downloaded for playback
+  blobUrl?: string;
+};
+
+interface StoreMediaState {
+  // what is on screen
+  display: MediaDisplay | null;
+  lastVideo: GeneratedVideo | null;
+  // data URI
+  lastImage: string | null;
+  // how many of each are being made, for the indicator
+  generating: Record<GeneratedMedia, number>;
+  // a video being downloaded to be shown
+  loading: boolean;
+  setDisplay: (display: MediaDisplay | null) => void;
+  setLastVideo: (lastVideo: GeneratedVideo | null) => void;
+  setLastImage: (lastImage: string | null) => void;
+  startGenerating: (media: GeneratedMedia) => void;
+  finishGenerating: (media: GeneratedMedia) => void;
+  setLoading: (loading: boolean) => void;
+}
+
+export const useMediaStore = create<StoreMediaState>((set) => ({
+  display: null,
+  lastVideo: null,
+  lastImage: null,
+  generating: { image: 0, video: 0 },
+  loading: false,
+  setDisplay: (display) => set({ display }),
+  setLastVideo: (lastVideo) => set({ lastVideo }),
+  setLastImage: (lastImage) => set({ lastImage }),
+  startGenerating: (media) =>
+    set(({ generating }) => ({
+      generating: { ...generating, [media]: generating[media] + 1 },
+    })),
+  finishGenerating: (media) =>
+    set(({ generating }) => ({
+      generating: { ...generating, [media]: generating[media] - 1 },
+    })),
+  setLoading: (loading) => set({ loading }),
+}));
@@ -0,0 +1,77 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ToolRequest, useToolRequestsStore } from "./store-tool-requests";
+
+const request = (requestId: string): ToolRequest => ({
+  requestId,
+  id: "call-1",
+  name: "generate_image",
+  args: { prompt: "a cat" },
+  status: "pending",
+  startedAt: new Date(0),
+  responses: [],
+});
+
+describe("useToolRequestsStore", () => {
+  const store = useToolRequestsStore;
+  const get = (requestId: string) =>
+    store.getState().requests.find((r) => r.requestId === requestId);
+
+  beforeEach(() => {
+    store.getState().clear();
+  });
+
+  it("tracks a request and the responses sent for it", () => {
+    const { start, update, respond } = store.getState();
+    start(request("a"));
+    start(request("b"));
+    update("a", { status: "ready", result: { url: "cat.png" } });
+    respond("a", { id: "call-1", name: "generate_image", response: {} });
+
+    expect(get("a")).toMatchObject({
+      status: "ready",
+      result: { url: "cat.png" },
+      responses: [{ id: "call-1", name: "generate_image", response: {} }],
+    });
+    expect(get("b")).toEqual(request("b"));
+  });
+
+  it("keeps the 50 newest requests", () => {
+    for (let i = 0; i < 52; i++) {
+      store.getState().start(request(`${i}`));
+    }
+    const { requests } = store.getState();
+    expect(requests).toHaveLength(50);
+    expect(requests[0].requestId).toBe("2");
+    expect(requests[49].requestId).toBe("51");
+  });
+
+  it("only offers a retry for failed requests", () => {
+    const { start, update } = store.getState();
+    const retry = () => {};
+    start(request("a"));
+
+    update("a", { retry });
+    expect(get("a")!.retry).toBeUndefined();
+    update("a", { status: "ready", retry });
+    expect(get("a")!.retry).toBeUndefined();
+    update("a", { status: "error", error: "timed out", retry });
+    expect(get("a")!.retry).toBe(retry);
+    update("a", { result: {} });
+    expect(get("a")!.retry).toBe(retry);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { LiveFunctionResponse } from "../types";
+
+// calls kept for inspection, oldest are dropped first
+const MAX_REQUESTS = 50;
+
+export type RequestStatus = "pending" | "ready" | "error" | "cancelled";
+
+/**
+ * a function call from a model and everything that happened to it
+ */
+export type ToolRequest = {
+  requestId: string;
+  // the function call id, shared by retries of the same call
+  id: string;
+  name: string;
+  args: unknown;
+  status: RequestStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  // what the handler's MediaClient call returned
+  result?: unknown;
+  error?: string;
+  // every function response sent for it, in order
+  responses: LiveFunctionResponse[];
+  // run again from the inspector, its response went out as a message
+  retried?: boolean;
+  // set while the call can be cancelled, or once it failed and can be retried
+  cancel?: () => void;
+  retry?: () => void;
+};
+
+interface StoreToolRequestsState {
+  // newest last
+  requests: ToolRequest[];
+  start: (request: ToolRequest) => void;
+  // drops `retry` unless the request ends up failed
+  update: (requestId: string, changes: Partial<ToolRequest>) => void;
+  // records a response that was sent for the request
+  respond: (requestId: string, response: LiveFunctionResponse) => void;
+  clear: () => void;
+}
+
+export const useToolRequestsStore = create<StoreToolRequestsState>((set) => {
+  const update = (
+    requestId: string,
+    changes: (request: ToolRequest) => Partial<ToolRequest>
+  ) =>
+    set((state) => ({
+      requests: state.requests.map((request) =>
+        request.requestId === requestId
+          ? { ...request, ...changes(request) }
+          : request
+      ),
+    }));
+
+  return {
+    requests: [],
+    start: (request) =>
+      set((state) => ({
+        requests: [...state.requests.slice(-(MAX_REQUESTS - 1)), request],
+      })),
+    update: (requestId, changes) =>
+      update(requestId, (request) =>
+        (changes.status || request.status) === "error"
+          ? changes
+          : { ...changes, retry: undefined }
+      ),
+    respond: (requestId, response) =>
+      update(requestId, ({ responses }) => ({
+        responses: [...responses, response],
+      })),
+    clear: () => set({ requests: [] }),
+  };
+});
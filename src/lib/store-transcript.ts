@@ -0,0 +1,55 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { TranscriptionTurn } from "../types";
+
+export type TranscriptRole = "user" | "model";
+
+export type TranscriptEntry = TranscriptionTurn & {
+  date: Date;
+  role: TranscriptRole;
+};
+
+interface StoreTranscriptState {
+  entries: TranscriptEntry[];
+  update: (role: TranscriptRole, transcription: TranscriptionTurn) => void;
+  clearTranscript: () => void;
+}
+
+export const useTranscriptStore = create<StoreTranscriptState>((set) => ({
+  entries: [],
+  update: (role: TranscriptRole, { text, finished }: TranscriptionTurn) => {
+    set((state) => {
+      // partial transcriptions replace the unfinished turn of the same speaker
+      const index = state.entries.findLastIndex(
+        (entry) => entry.role === role && !entry.finished
+      );
+      if (index === -1) {
+        return {
+          entries: [
+            ...state.entries,
+            { date: new Date(), role, text, finished },
+          ],
+        };
+      }
+      const entries = [...state.entries];
+      entries[index] = { ...entries[index], text, finished };
+      return { entries };
+    });
+  },
+  clearTranscript: () => set({ entries: [] }),
+}));
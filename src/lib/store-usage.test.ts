@@ -0,0 +1,86 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MediaModality, UsageMetadata } from "@google/genai";
+import { sumUsage, useUsageStore } from "./store-usage";
+
+const turn = (prompt: number, response: number): UsageMetadata => ({
+  promptTokenCount: prompt,
+  responseTokenCount: response,
+  totalTokenCount: prompt + response,
+  promptTokensDetails: [{ modality: MediaModality.AUDIO, tokenCount: prompt }],
+  responseTokensDetails: [
+    { modality: MediaModality.AUDIO, tokenCount: response },
+  ],
+});
+
+describe("useUsageStore", () => {
+  const store = useUsageStore;
+  const model = "models/gemini-2.0-flash-exp";
+
+  beforeEach(() => {
+    store.getState().startSession();
+  });
+
+  it("sums the turns of every session", () => {
+    const { record } = store.getState();
+    record("speaking", model, turn(100, 20));
+    record("speaking", model, turn(200, 40));
+    record("function", model, turn(50, 0));
+
+    const { records } = store.getState();
+    const { cost, ...totals } = sumUsage(records);
+    expect(cost).toBeCloseTo((350 * 2.1 + 60 * 8.5) / 1_000_000);
+    expect(totals).toEqual({
+      promptTokens: 350,
+      responseTokens: 60,
+      totalTokens: 410,
+      promptTokensByModality: { [MediaModality.AUDIO]: 350 },
+      responseTokensByModality: { [MediaModality.AUDIO]: 60 },
+      videoSeconds: 0,
+      requests: 3,
+    });
+    expect(
+      sumUsage(records.filter(({ source }) => source === "speaking"))
+    ).toMatchObject({ promptTokens: 300, responseTokens: 60, requests: 2 });
+  });
+
+  it("reads the response counts of generateContent usage", () => {
+    store.getState().record("media", "gemini-2.0-flash", {
+      promptTokenCount: 10,
+      candidatesTokenCount: 30,
+    });
+
+    expect(store.getState().records[0]).toMatchObject({
+      source: "media",
+      promptTokens: 10,
+      responseTokens: 30,
+      totalTokens: 40,
+    });
+  });
+
+  it("starts over with a new session", () => {
+    store.getState().record("speaking", model, turn(100, 20));
+    store.getState().startSession();
+
+    expect(store.getState().records).toEqual([]);
+    expect(sumUsage(store.getState().records)).toMatchObject({
+      totalTokens: 0,
+      cost: 0,
+      requests: 0,
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  GenerateContentResponseUsageMetadata,
+  ModalityTokenCount,
+  UsageMetadata,
+} from "@google/genai";
+import { create } from "zustand";
+import { CostInput, estimateCost } from "./pricing";
+
+/**
+ * where the tokens were spent: the name of a live session, or "media" for a
+ * MediaClient call
+ */
+export type UsageSource = string;
+
+export type UsageRecord = CostInput & {
+  date: Date;
+  source: UsageSource;
+  model: string;
+  totalTokens: number;
+  cost: number;
+};
+
+export type UsageTotals = CostInput & {
+  totalTokens: number;
+  cost: number;
+  requests: number;
+};
+
+const byModality = (details?: ModalityTokenCount[]) =>
+  (details || []).reduce<Record<string, number>>(
+    (acc, { modality, tokenCount }) => {
+      const key = modality || "MODALITY_UNSPECIFIED";
+      acc[key] = (acc[key] || 0) + (tokenCount || 0);
+      return acc;
+    },
+    {}
+  );
+
+/**
+ * normalizes live and generateContent usage metadata, they name the response
+ * counts differently
+ */
+function toCostInput(
+  usage: UsageMetadata | GenerateContentResponseUsageMetadata | undefined
+): CostInput & { totalTokens: number } {
+  const response =
+    usage && "candidatesTokenCount" in usage
+      ? {
+          count: usage.candidatesTokenCount,
+          details: usage.candidatesTokensDetails,
+        }
+      : {
+          count: (usage as UsageMetadata | undefined)?.responseTokenCount,
+          details: (usage as UsageMetadata | undefined)?.responseTokensDetails,
+        };
+  const promptTokens = usage?.promptTokenCount || 0;
+  const responseTokens = response.count || 0;
+  return {
+    promptTokens,
+    responseTokens,
+    totalTokens: usage?.totalTokenCount || promptTokens + responseTokens,
+    promptTokensByModality: byModality(usage?.promptTokensDetails),
+    responseTokensByModality: byModality(response.details),
+  };
+}
+
+const emptyTotals = (): UsageTotals => ({
+  promptTokens: 0,
+  responseTokens: 0,
+  totalTokens: 0,
+  promptTokensByModality: {},
+  responseTokensByModality: {},
+  videoSeconds: 0,
+  cost: 0,
+  requests: 0,
+});
+
+const addCounts = (a: Record<string, number>, b: Record<string, number>) => {
+  const sum = { ...a };
+  Object.entries(b).forEach(([key, value]) => {
+    sum[key] = (sum[key] || 0) + value;
+  });
+  return sum;
+};
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce(
+    (totals, r) => ({
+      promptTokens: totals.promptTokens + r.promptTokens,
+      responseTokens: totals.responseTokens + r.responseTokens,
+      totalTokens: totals.totalTokens + r.totalTokens,
+      promptTokensByModality: addCounts(
+        totals.promptTokensByModality,
+        r.promptTokensByModality
+      ),
+      responseTokensByModality: addCounts(
+        totals.responseTokensByModality,
+        r.responseTokensByModality
+      ),
+      videoSeconds: (totals.videoSeconds || 0) + (r.videoSeconds || 0),
+      cost: totals.cost + r.cost,
+      requests: totals.requests + 1,
+    }),
+    emptyTotals()
+  );
+}
+
+interface StoreUsageState {
+  sessionStart: Date;
+  records: UsageRecord[];
+  record: (
+    source: UsageSource,
+    model: string,
+    usage?: UsageMetadata | GenerateContentResponseUsageMetadata,
+    videoSeconds?: number
+  ) => void;
+  startSession: () => void;
+}
+
+export const useUsageStore = create<StoreUsageState>((set) => ({
+  sessionStart: new Date(),
+  records: [],
+  record: (source, model, usage, videoSeconds) => {
+    const input = { ...toCostInput(usage), videoSeconds };
+    const record: UsageRecord = {
+      ...input,
+      date: new Date(),
+      source,
+      model,
+      cost: estimateCost(model, input),
+    };
+    set((state) => ({ records: [...state.records, record] }));
+  },
+  startSession: () => set({ sessionStart: new Date(), records: [] }),
+}));
@@ -0,0 +1,72 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { syncWebhookTools, useWebhookToolsStore } from "./store-webhook-tools";
+import { ToolRegistry } from "./tool-registry";
+import { WebhookToolConfig } from "./webhook-tools";
+
+const webhook = (name: string): WebhookToolConfig => ({
+  name,
+  description: `${name} over http`,
+  url: `http://localhost/${name}`,
+  parameters: [],
+});
+
+describe("syncWebhookTools", () => {
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    registry = new ToolRegistry([
+      {
+        declaration: { name: "generate_image", description: "built in" },
+        handler: async () => ({}),
+      },
+    ]);
+    useWebhookToolsStore.setState({ tools: [] });
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("registers the webhook tools as they are edited", () => {
+    useWebhookToolsStore.getState().save(webhook("lookup_timetable"));
+    const stop = syncWebhookTools(registry);
+    expect(registry.declarations.map(({ name }) => name)).toEqual([
+      "generate_image",
+      "lookup_timetable",
+    ]);
+
+    useWebhookToolsStore.getState().save(webhook("find_book"));
+    useWebhookToolsStore.getState().remove("lookup_timetable");
+    expect(registry.declarations.map(({ name }) => name)).toEqual([
+      "generate_image",
+      "find_book",
+    ]);
+
+    stop();
+    expect(registry.declarations.map(({ name }) => name)).toEqual([
+      "generate_image",
+    ]);
+  });
+
+  it("never replaces a built-in tool", () => {
+    const builtIn = registry.get("generate_image");
+    useWebhookToolsStore.setState({ tools: [webhook("generate_image")] });
+    const stop = syncWebhookTools(registry);
+    expect(registry.get("generate_image")).toBe(builtIn);
+
+    stop();
+    expect(registry.get("generate_image")).toBe(builtIn);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { ToolRegistry } from "./tool-registry";
+import { webhookTool, WebhookToolConfig } from "./webhook-tools";
+
+interface StoreWebhookToolsState {
+  tools: WebhookToolConfig[];
+  // adds a tool, or replaces the one with the same name
+  save: (tool: WebhookToolConfig) => void;
+  remove: (name: string) => void;
+}
+
+// kept in local storage, so they survive reloads without rebuilding the app
+export const useWebhookToolsStore = create<StoreWebhookToolsState>()(
+  persist(
+    (set) => ({
+      tools: [],
+      save: (tool) =>
+        set((state) => ({
+          tools: [...state.tools.filter((t) => t.name !== tool.name), tool],
+        })),
+      remove: (name) =>
+        set((state) => ({
+          tools: state.tools.filter((t) => t.name !== name),
+        })),
+    }),
+    {
+      name: "webhook-tools",
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+/**
+ * registers the webhook tools and keeps the registry in sync as they are
+ * edited, returns a function that stops it. The tools registered before are
+ * built in, webhook tools with their names are skipped.
+ */
+export function syncWebhookTools(registry: ToolRegistry) {
+  const reserved = new Set(registry.tools.map((t) => t.declaration.name));
+  let unregister: (() => void)[] = [];
+  const register = (tools: WebhookToolConfig[]) => {
+    unregister.forEach((remove) => remove());
+    unregister = tools
+      .filter((tool) => {
+        if (reserved.has(tool.name)) {
+          console.warn(`[webhook-tools] ${tool.name} is a built-in tool`);
+          return false;
+        }
+        return true;
+      })
+      .map((tool) => registry.register(webhookTool(tool)));
+  };
+
+  register(useWebhookToolsStore.getState().tools);
+  const unsubscribe = useWebhookToolsStore.subscribe((state, previous) => {
+    if (state.tools !== previous.tools) {
+      register(state.tools);
+    }
+  });
+  return () => {
+    unsubscribe();
+    register([]);
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ * @jest-environment ./src/fetch-environment.js
+ */
+
+import { createServer, Server } from "http";
+import { router } from "../../server/http";
+import { tokenRoutes, TokenOptions } from "../../server/token";
+import { close, listen } from "../test-utils";
+import { TokenProvider } from "./token-provider";
+
+const API_KEY = "upstream-key";
+const setup = { model: "models/gemini-2.0-flash-exp", generationConfig: {} };
+
+describe("TokenProvider with the token route", () => {
+  let upstream: Server;
+  let app: Server | null;
+  let minted: any[];
+  let provider: TokenProvider | null;
+
+  /**
+   * serves the token route against a stand-in for the auth_tokens endpoint
+   */
+  const start = async (options: Partial<TokenOptions> = {}) => {
+    const baseUrl = await listen(upstream);
+    app = createServer(
+      router(tokenRoutes({ apiKey: API_KEY, baseUrl, ...options }))
+    );
+    return `${await listen(app)}/api/token`;
+  };
+
+  beforeEach(() => {
+    minted = [];
+    app = null;
+    provider = null;
+    upstream = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        if (req.headers["x-goog-api-key"] !== API_KEY) {
+          res.writeHead(403);
+          res.end();
+          return;
+        }
+        minted.push(JSON.parse(body));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ name: `auth_tokens/${minted.length}` }));
+      });
+    });
+  });
+
+  afterEach(async () => {
+    provider?.dispose();
+    if (app) {
+      await close(app);
+    }
+    await close(upstream);
+  });
+
+  it("mints single-use tokens locked to the session setup", async () => {
+    provider = new TokenProvider({ url: await start() });
+
+    await expect(provider.getToken(setup)).resolves.toBe("auth_tokens/1");
+    expect(minted).toEqual([
+      expect.objectContaining({
+        uses: 1,
+        bidiGenerateContentSetup: setup,
+        fieldMask: "model,generationConfig",
+      }),
+    ]);
+  });
+
+  it("rejects setups for models it doesn't allow", async () => {
+    provider = new TokenProvider({ url: await start() });
+
+    await expect(
+      provider.getToken({ model: "models/gemini-2.5-pro" })
+    ).rejects.toThrow("Failed to fetch auth token: 400 Bad Request");
+    expect(minted).toEqual([]);
+  });
+
+  it("reuses a valid token for the same setup only", async () => {
+    provider = new TokenProvider({ url: await start() });
+
+    await provider.getToken(setup);
+    await expect(provider.getToken(setup)).resolves.toBe("auth_tokens/1");
+    await expect(
+      provider.getToken({ ...setup, generationConfig: { temperature: 0 } })
+    ).resolves.toBe("auth_tokens/2");
+    expect(minted).toHaveLength(2);
+  });
+
+  it("hands out a token once and prefetches the next", async () => {
+    provider = new TokenProvider({ url: await start() });
+
+    await expect(provider.takeToken(setup)).resolves.toBe("auth_tokens/1");
+    await expect(provider.takeToken(setup)).resolves.toBe("auth_tokens/2");
+    // joins the prefetch that is still in flight
+    await expect(provider.getToken(setup)).resolves.toBe("auth_tokens/3");
+    expect(minted).toHaveLength(3);
+  });
+
+  it("fetches a new token when the current one is about to expire", async () => {
+    provider = new TokenProvider({
+      url: await start({ ttlMs: 500 }),
+      refreshMarginMs: 1000,
+    });
+
+    await expect(provider.getToken(setup)).resolves.toBe("auth_tokens/1");
+    await expect(provider.getToken(setup)).resolves.toBe("auth_tokens/2");
+  });
+
+  it("fetches a new token once the current one can't open sessions", async () => {
+    provider = new TokenProvider({
+      url: await start({ newSessionTtlMs: 500 }),
+      refreshMarginMs: 1000,
+    });
+
+    await expect(provider.getToken(setup)).resolves.toBe("auth_tokens/1");
+    await expect(provider.getToken(setup)).resolves.toBe("auth_tokens/2");
+  });
+
+  it("refreshes the token before it stops opening sessions", async () => {
+    provider = new TokenProvider({
+      url: await start({ newSessionTtlMs: 1100 }),
+      refreshMarginMs: 1000,
+    });
+    await provider.getToken(setup);
+    expect(minted).toHaveLength(1);
+
+    while (minted.length < 2) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(minted[1].bidiGenerateContentSetup).toEqual(setup);
+    await expect(provider.getToken(setup)).resolves.toBe("auth_tokens/2");
+  });
+});
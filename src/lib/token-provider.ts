@@ -0,0 +1,150 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type EphemeralToken = {
+  token: string;
+  // ISO timestamp after which the token is rejected
+  expireTime: string;
+  // ISO timestamp after which it can no longer open a session, usually much
+  // sooner than expireTime
+  newSessionExpireTime: string;
+};
+
+/**
+ * the BidiGenerateContent setup a token is locked to, see toSetupMessage
+ */
+export type TokenSetup = Record<string, unknown>;
+
+export type TokenProviderOptions = {
+  // endpoint of the local token server, see server/token.ts
+  url: string;
+  // fetch a new token this long before the current one expires
+  refreshMarginMs?: number;
+};
+
+/**
+ * Fetches short-lived auth tokens from our own backend so the Gemini API key
+ * never ships in the bundle. Each token only opens a session with the setup it
+ * was requested for. The latest one is kept and refreshed before it expires.
+ */
+export class TokenProvider {
+  private token: EphemeralToken | null = null;
+  // JSON of the setup `token` is locked to
+  private tokenSetup: string | null = null;
+  private pending = new Map<string, Promise<EphemeralToken>>();
+  private refreshTimeout: ReturnType<typeof setTimeout> | null = null;
+  private refreshMarginMs: number;
+
+  constructor(private options: TokenProviderOptions) {
+    this.refreshMarginMs = options.refreshMarginMs ?? 60 * 1000;
+  }
+
+  /**
+   * a valid token, fetched if we don't have one or it is about to expire
+   */
+  async getToken(setup: TokenSetup): Promise<string> {
+    if (
+      this.token &&
+      this.tokenSetup === JSON.stringify(setup) &&
+      !this.expiresSoon(this.token)
+    ) {
+      return this.token.token;
+    }
+    return (await this.refresh(setup)).token;
+  }
+
+  /**
+   * hands out the current token and starts fetching the next one, for tokens
+   * that can only open a single session
+   */
+  async takeToken(setup: TokenSetup): Promise<string> {
+    const token = await this.getToken(setup);
+    this.token = null;
+    this.refresh(setup).catch((e) =>
+      console.error("[TokenProvider] prefetch failed:", e)
+    );
+    return token;
+  }
+
+  refresh(setup: TokenSetup): Promise<EphemeralToken> {
+    const key = JSON.stringify(setup);
+    const pending = this.pending.get(key);
+    if (pending) {
+      return pending;
+    }
+    const request = this.fetchToken(setup)
+      .then((token) => {
+        this.token = token;
+        this.tokenSetup = key;
+        this.scheduleRefresh(setup, token);
+        return token;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, request);
+    return request;
+  }
+
+  dispose() {
+    if (this.refreshTimeout !== null) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = null;
+    }
+  }
+
+  private expiresSoon(token: EphemeralToken) {
+    return this.usableUntil(token) - Date.now() < this.refreshMarginMs;
+  }
+
+  // we only use tokens to open sessions, an open session outlives this
+  private usableUntil({ expireTime, newSessionExpireTime }: EphemeralToken) {
+    return Math.min(Date.parse(expireTime), Date.parse(newSessionExpireTime));
+  }
+
+  private scheduleRefresh(setup: TokenSetup, token: EphemeralToken) {
+    this.dispose();
+    const delay = this.usableUntil(token) - Date.now() - this.refreshMarginMs;
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = null;
+      this.refresh(setup).catch((e) =>
+        console.error("[TokenProvider] refresh failed:", e)
+      );
+    }, Math.max(0, delay));
+  }
+
+  private async fetchToken(setup: TokenSetup): Promise<EphemeralToken> {
+    const response = await fetch(this.options.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ setup }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch auth token: ${response.status} ${response.statusText}`
+      );
+    }
+    const { token, expireTime, newSessionExpireTime } = await response.json();
+    if (
+      typeof token !== "string" ||
+      typeof expireTime !== "string" ||
+      typeof newSessionExpireTime !== "string"
+    ) {
+      throw new Error("Token endpoint returned an invalid token");
+    }
+    return { token, expireTime, newSessionExpireTime };
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { toolContext as context } from "../test-utils";
+import { ToolDefinition, ToolRegistry } from "./tool-registry";
+
+const tool = (
+  name: string,
+  handler: ToolDefinition["handler"],
+  timeoutMs?: number
+): ToolDefinition => ({
+  declaration: { name, description: `${name} things` },
+  handler,
+  timeoutMs,
+});
+
+describe("ToolRegistry", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("replaces a tool registered under the same name", () => {
+    const registry = new ToolRegistry([tool("a", async () => ({}))]);
+    const onChange = jest.fn();
+    registry.on("change", onChange);
+
+    const unregister = registry.register(tool("a", async () => ({ v: 2 })));
+    registry.setDescription("a", "edited");
+    expect(registry.declarations).toEqual([
+      { name: "a", description: "edited" },
+    ]);
+    expect(onChange).toHaveBeenCalledTimes(2);
+
+    unregister();
+    expect(registry.tools).toEqual([]);
+  });
+
+  it("runs the handler with the call's arguments", async () => {
+    const registry = new ToolRegistry([
+      tool("echo", async (args, { requestId }) => ({ ...args, requestId })),
+    ]);
+    await expect(registry.run("echo", { x: 1 }, context())).resolves.toEqual({
+      x: 1,
+      requestId: "request-1",
+    });
+    await expect(registry.run("nope", {}, context())).rejects.toThrow(
+      "Unknown function nope"
+    );
+  });
+
+  it("aborts and rejects a handler that takes too long", async () => {
+    jest.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    const registry = new ToolRegistry([
+      tool(
+        "slow",
+        (args, context) => {
+          signal = context.signal;
+          return new Promise(() => {});
+        },
+        1000
+      ),
+    ]);
+    const running = registry.run("slow", {}, context());
+    jest.advanceTimersByTime(1000);
+    await expect(running).rejects.toThrow("slow timed out after 1s");
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("passes cancellation of the call on to the handler", async () => {
+    const call = new AbortController();
+    const registry = new ToolRegistry([
+      tool(
+        "waits",
+        (args, { signal }) =>
+          new Promise((resolve, reject) =>
+            signal.addEventListener("abort", () => reject(new Error("aborted")))
+          )
+      ),
+    ]);
+    const running = registry.run("waits", {}, context({ signal: call.signal }));
+    call.abort();
+    await expect(running).rejects.toThrow("aborted");
+  });
+
+  describe("stubs", () => {
+    // CRA resets jest.fn implementations between tests
+    let realCalls = 0;
+    const real = async () => {
+      realCalls++;
+      return { real: true };
+    };
+    const registry = new ToolRegistry([
+      {
+        ...tool("generate_image", real),
+        sample: async () => ({ sample: true }),
+      },
+    ]);
+
+    afterEach(() => {
+      registry.setStub("generate_image");
+      realCalls = 0;
+    });
+
+    it("answer with a canned response after the delay", async () => {
+      jest.useFakeTimers();
+      registry.setStub("generate_image", {
+        mode: "response",
+        delayMs: 500,
+        response: { status: "ready", canned: true },
+      });
+      const running = registry.run("generate_image", {}, context());
+      jest.advanceTimersByTime(500);
+      await expect(running).resolves.toEqual({ status: "ready", canned: true });
+      expect(realCalls).toBe(0);
+    });
+
+    it("make sample media or fail on purpose", async () => {
+      registry.setStub("generate_image", { mode: "sample", delayMs: 0 });
+      await expect(
+        registry.run("generate_image", {}, context())
+      ).resolves.toEqual({ sample: true });
+
+      registry.setStub("generate_image", {
+        mode: "error",
+        delayMs: 0,
+        error: "quota exceeded",
+      });
+      await expect(
+        registry.run("generate_image", {}, context())
+      ).rejects.toThrow("quota exceeded");
+    });
+
+    it("can be switched off again", async () => {
+      const onStubs = jest.fn();
+      registry.on("stubs", onStubs);
+      registry.setStub("generate_image", { mode: "sample", delayMs: 0 });
+      registry.setStub("generate_image");
+      registry.off("stubs", onStubs);
+
+      expect(onStubs).toHaveBeenLastCalledWith({});
+      await expect(
+        registry.run("generate_image", {}, context())
+      ).resolves.toEqual({ real: true });
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import { ComponentType } from "react";
+import { MediaClient } from "./media-client";
+import { ToolLifecycleEvent } from "./orchestrator";
+import { validateArgs } from "./validate-args";
+import { FunctionResponseScheduling, LiveFunctionDeclaration } from "../types";
+
+// how long a tool may take when it doesn't set its own timeout
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// resolves after `ms`, rejects as soon as `signal` aborts
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException("The stub was cancelled.", "AbortError"));
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * what a handler gets to work with besides the call's arguments
+ */
+export type ToolContext = {
+  // the function call id
+  id: string;
+  // identifies the call in responses and context messages
+  requestId: string;
+  // aborted when the call is cancelled or times out
+  signal: AbortSignal;
+  mediaClient: MediaClient | null;
+  // tells the speaking model about the call
+  notify: (event: Pick<ToolLifecycleEvent, "type" | "media">) => void;
+  // keeps what a service returned, e.g. MediaClient, for the inspector
+  inspect: (result: unknown) => void;
+};
+
+/**
+ * resolves with the `output` of the function response
+ */
+export type ToolHandler = (
+  args: any,
+  context: ToolContext
+) => Promise<Record<string, unknown>>;
+
+export type ToolDefinition = {
+  declaration: LiveFunctionDeclaration;
+  handler: ToolHandler;
+  // after this long the call is aborted and answered with an error
+  timeoutMs?: number;
+  // drawn by Altair, once even when several tools share it
+  Renderer?: ComponentType;
+  // non-blocking tools are accepted right away, the result follows with this
+  scheduling?: FunctionResponseScheduling;
+  // what the tool makes, the speaking model is told when it starts and is ready
+  media?: "image" | "video";
+  // makes bundled sample media instead of calling a service, for stubs
+  sample?: ToolHandler;
+};
+
+/**
+ * stands in for a tool's handler during development: answers with a canned
+ * output, the tool's sample media or an error, after a delay
+ */
+export type ToolStub = {
+  mode: "response" | "sample" | "error";
+  delayMs: number;
+  // for "response", defaults to a ready status
+  response?: Record<string, unknown>;
+  // for "error"
+  error?: string;
+};
+
+export interface ToolRegistryEventTypes {
+  // a tool was added, replaced or removed
+  change: (tools: ToolDefinition[]) => void;
+  // a tool was stubbed or set back to its handler
+  stubs: (stubs: Record<string, ToolStub>) => void;
+}
+
+/**
+ * The tools the models can call. Each one brings its declaration, its handler
+ * and the UI it draws, so the session configs and the settings are generated
+ * from here.
+ */
+export class ToolRegistry extends EventEmitter<ToolRegistryEventTypes> {
+  private _tools: ToolDefinition[];
+  private _stubs: Record<string, ToolStub> = {};
+
+  constructor(tools: ToolDefinition[] = []) {
+    super();
+    this._tools = tools;
+  }
+
+  // replaced, never mutated, on every change
+  get tools() {
+    return this._tools;
+  }
+
+  // by tool name
+  get stubs() {
+    return this._stubs;
+  }
+
+  get declarations() {
+    return this._tools.map(({ declaration }) => declaration);
+  }
+
+  get(name: string) {
+    return this._tools.find(({ declaration }) => declaration.name === name);
+  }
+
+  /**
+   * adds a tool, replacing the one with the same name, and returns a function
+   * that removes the tool with that name again
+   */
+  register(tool: ToolDefinition) {
+    const { name } = tool.declaration;
+    this.update([
+      ...this._tools.filter(({ declaration }) => declaration.name !== name),
+      tool,
+    ]);
+    return () =>
+      this.update(
+        this._tools.filter(({ declaration }) => declaration.name !== name)
+      );
+  }
+
+  setDescription(name: string, description: string) {
+    this.update(
+      this._tools.map((tool) =>
+        tool.declaration.name === name
+          ? { ...tool, declaration: { ...tool.declaration, description } }
+          : tool
+      )
+    );
+  }
+
+  /**
+   * replaces a tool's handler with a stub, or restores it without one
+   */
+  setStub(name: string, stub?: ToolStub) {
+    const { [name]: previous, ...stubs } = this._stubs;
+    this._stubs = stub ? { ...stubs, [name]: stub } : stubs;
+    this.emit("stubs", this._stubs);
+  }
+
+  /**
+   * what is wrong with the arguments of a call, empty when they match the
+   * tool's declaration
+   */
+  validate(name: string, args: unknown): string[] {
+    const tool = this.get(name);
+    if (!tool) {
+      return [`Unknown function ${name}`];
+    }
+    return validateArgs(tool.declaration.parameters, args);
+  }
+
+  /**
+   * runs a tool's handler, or its stub, rejecting when it takes longer than
+   * its timeout
+   */
+  async run(
+    name: string,
+    args: any,
+    context: ToolContext
+  ): Promise<Record<string, unknown>> {
+    const tool = this.get(name);
+    if (!tool) {
+      throw new Error(`Unknown function ${name}`);
+    }
+    const stub = this._stubs[name];
+    const handler = stub ? this.stubHandler(tool, stub) : tool.handler;
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    context.signal.addEventListener("abort", abort, { once: true });
+    let timeout = -1;
+    try {
+      return await Promise.race([
+        handler(args, { ...context, signal: controller.signal }),
+        new Promise<never>((_, reject) => {
+          timeout = window.setTimeout(() => {
+            controller.abort();
+            reject(new Error(`${name} timed out after ${timeoutMs / 1000}s`));
+          }, timeoutMs);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeout);
+      context.signal.removeEventListener("abort", abort);
+    }
+  }
+
+  private stubHandler(
+    { declaration, sample }: ToolDefinition,
+    { mode, delayMs, response, error }: ToolStub
+  ): ToolHandler {
+    return async (args, context) => {
+      await sleep(delayMs, context.signal);
+      if (mode === "error") {
+        throw new Error(error || `${declaration.name} stub failed`);
+      }
+      if (mode === "sample") {
+        if (!sample) {
+          throw new Error(`${declaration.name} has no sample`);
+        }
+        return sample(args, context);
+      }
+      return (
+        response || {
+          status: "ready",
+          requestId: context.requestId,
+          message: "Stubbed response",
+        }
+      );
+    };
+  }
+
+  private update(tools: ToolDefinition[]) {
+    this._tools = tools;
+    this.emit("change", tools);
+  }
+}
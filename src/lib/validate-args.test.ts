@@ -0,0 +1,68 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Schema, Type } from "@google/genai";
+import { validateArgs } from "./validate-args";
+
+const schema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    prompt: { type: Type.STRING },
+    mediaType: { type: Type.STRING, format: "enum", enum: ["video", "image"] },
+    count: { type: Type.INTEGER },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["prompt"],
+};
+
+describe("validateArgs", () => {
+  it("accepts arguments that match the schema", () => {
+    expect(
+      validateArgs(schema, {
+        prompt: "a blue sky",
+        mediaType: "image",
+        count: 2,
+        tags: ["sky"],
+        extra: true,
+      })
+    ).toEqual([]);
+  });
+
+  it("reports missing required properties", () => {
+    expect(validateArgs(schema, { mediaType: "video" })).toEqual([
+      "args.prompt is required",
+    ]);
+  });
+
+  it("reports values outside an enum", () => {
+    expect(validateArgs(schema, { prompt: "x", mediaType: "gif" })).toEqual([
+      'args.mediaType must be one of "video", "image", got "gif"',
+    ]);
+  });
+
+  it("reports wrong types, nested ones too", () => {
+    expect(
+      validateArgs(schema, { prompt: 3, count: 1.5, tags: ["ok", false] })
+    ).toEqual([
+      "args.prompt must be a string, got number",
+      "args.count must be an integer, got 1.5",
+      "args.tags[1] must be a string, got boolean",
+    ]);
+    expect(validateArgs(schema, [])).toEqual([
+      "args must be an object, got array",
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Schema, Type } from "@google/genai";
+
+const typeName = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+/**
+ * checks a value against a declaration's schema: types, required properties
+ * and enums, of nested objects and arrays too. Returns what is wrong, empty
+ * when it is valid. Properties the schema doesn't mention are let through.
+ */
+export function validateArgs(
+  schema: Schema | undefined,
+  value: unknown,
+  path = "args"
+): string[] {
+  if (!schema) {
+    return [];
+  }
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} must not be ${value}`];
+  }
+
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== "string") {
+        return [`${path} must be a string, got ${typeName(value)}`];
+      }
+      break;
+    case Type.NUMBER:
+      if (typeof value !== "number") {
+        return [`${path} must be a number, got ${typeName(value)}`];
+      }
+      break;
+    case Type.INTEGER:
+      if (typeof value !== "number" || !Number.isInteger(value)) {
+        return [`${path} must be an integer, got ${JSON.stringify(value)}`];
+      }
+      break;
+    case Type.BOOLEAN:
+      if (typeof value !== "boolean") {
+        return [`${path} must be a boolean, got ${typeName(value)}`];
+      }
+      break;
+    case Type.ARRAY:
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array, got ${typeName(value)}`];
+      }
+      return value.flatMap((item, i) =>
+        validateArgs(schema.items, item, `${path}[${i}]`)
+      );
+    case Type.OBJECT: {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return [`${path} must be an object, got ${typeName(value)}`];
+      }
+      const object = value as Record<string, unknown>;
+      const missing = (schema.required || [])
+        .filter((name) => object[name] === undefined)
+        .map((name) => `${path}.${name} is required`);
+      const invalid = Object.entries(schema.properties || {})
+        .filter(([name]) => object[name] !== undefined)
+        .flatMap(([name, property]) =>
+          validateArgs(property, object[name], `${path}.${name}`)
+        );
+      return [...missing, ...invalid];
+    }
+  }
+
+  // the api sends enum values of every type as strings
+  if (schema.enum && !schema.enum.includes(String(value))) {
+    return [
+      `${path} must be one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}, got ${JSON.stringify(value)}`,
+    ];
+  }
+  return [];
+}
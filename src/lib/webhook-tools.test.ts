@@ -0,0 +1,113 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ * @jest-environment ./src/fetch-environment.js
+ */
+
+import { createServer, Server } from "http";
+import { close, listen, toolContext as context } from "../test-utils";
+import { webhookTool } from "./webhook-tools";
+
+describe("webhookTool", () => {
+  let server: Server;
+  let url: string;
+  let received: any[];
+  // what the endpoint answers with
+  let answer: { status: number; body: string };
+
+  beforeEach(async () => {
+    received = [];
+    answer = { status: 200, body: JSON.stringify({ lesson: "maths" }) };
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ method: req.method, body: JSON.parse(body) });
+        res.writeHead(answer.status, { "Content-Type": "application/json" });
+        res.end(answer.body);
+      });
+    });
+    url = `${await listen(server)}/timetable`;
+  });
+
+  afterEach(() => close(server));
+
+  const timetable = () =>
+    webhookTool({
+      name: "lookup_timetable",
+      description: "Looks up the next lesson.",
+      url,
+      parameters: [
+        {
+          name: "day",
+          type: "STRING",
+          description: "the weekday",
+          required: true,
+          enum: ["monday", "tuesday"],
+        },
+        { name: "week", type: "INTEGER", description: "", required: false },
+      ],
+    });
+
+  it("declares the configured parameters", () => {
+    expect(timetable().declaration.parameters).toEqual({
+      type: "OBJECT",
+      properties: {
+        day: {
+          type: "STRING",
+          description: "the weekday",
+          format: "enum",
+          enum: ["monday", "tuesday"],
+        },
+        week: { type: "INTEGER", description: "" },
+      },
+      required: ["day"],
+    });
+  });
+
+  it("posts the call and answers with the endpoint's JSON", async () => {
+    const inspected: unknown[] = [];
+    const output = await timetable().handler(
+      { day: "monday" },
+      context({ inspect: (result) => inspected.push(result) })
+    );
+    expect(received).toEqual([
+      {
+        method: "POST",
+        body: {
+          id: "call-1",
+          name: "lookup_timetable",
+          args: { day: "monday" },
+        },
+      },
+    ]);
+    expect(output).toEqual({ lesson: "maths" });
+    expect(inspected).toEqual([{ lesson: "maths" }]);
+  });
+
+  it("wraps results that aren't objects", async () => {
+    answer.body = JSON.stringify(["maths", "art"]);
+    await expect(
+      timetable().handler({ day: "monday" }, context())
+    ).resolves.toEqual({ result: ["maths", "art"] });
+  });
+
+  it("fails when the endpoint does", async () => {
+    answer = { status: 503, body: "{}" };
+    await expect(
+      timetable().handler({ day: "monday" }, context())
+    ).rejects.toThrow(`${url} answered 503 Service Unavailable`);
+  });
+});
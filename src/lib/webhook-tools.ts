@@ -0,0 +1,97 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Schema, Type } from "@google/genai";
+import { ToolDefinition } from "./tool-registry";
+
+export type WebhookParameterType = "STRING" | "NUMBER" | "INTEGER" | "BOOLEAN";
+
+export type WebhookParameter = {
+  name: string;
+  type: WebhookParameterType;
+  description: string;
+  required: boolean;
+  // allowed values, strings only
+  enum?: string[];
+};
+
+/**
+ * a tool defined in the settings dialog whose calls are POSTed to `url`
+ */
+export type WebhookToolConfig = {
+  name: string;
+  description: string;
+  url: string;
+  parameters: WebhookParameter[];
+};
+
+// letters, digits, underscores and dashes, as the api accepts them
+export const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+
+function parametersSchema(parameters: WebhookParameter[]): Schema {
+  return {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(
+      parameters.map(({ name, type, description, enum: values }) => [
+        name,
+        {
+          type: type as Type,
+          description,
+          ...(values?.length ? { format: "enum", enum: values } : {}),
+        },
+      ])
+    ),
+    required: parameters.filter((p) => p.required).map(({ name }) => name),
+  };
+}
+
+/**
+ * A tool that POSTs each call as `{ id, name, args }` to the configured
+ * endpoint and answers with the JSON it returns.
+ */
+export function webhookTool({
+  name,
+  description,
+  url,
+  parameters,
+}: WebhookToolConfig): ToolDefinition {
+  return {
+    declaration: {
+      name,
+      description,
+      parameters: parametersSchema(parameters),
+    },
+    handler: async (args, { id, signal, inspect }) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, name, args }),
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error(
+          `${url} answered ${response.status} ${response.statusText}`.trim()
+        );
+      }
+      const result = await response.json();
+      inspect(result);
+      // a function response's output has to be an object
+      return typeof result === "object" && result && !Array.isArray(result)
+        ? result
+        : { result };
+    },
+  };
+}
@@ -0,0 +1,516 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveServerToolCall, Type } from "@google/genai";
+import { fake, FakeLiveServer } from "../../server/fake-live-server";
+import { toolContext } from "../test-utils";
+import { LiveClientOptions, SessionStatus } from "../types";
+import { GenAILiveClient } from "./genai-live-client";
+import { ToolRegistry } from "./tool-registry";
+import { WebSocketTransport } from "./websocket-transport";
+
+const once = <T extends any[]>(
+  client: GenAILiveClient,
+  event: "setupcomplete" | "toolcall" | "interrupted" | "turncomplete" | "close"
+) =>
+  new Promise<T>((resolve) =>
+    client.once(event, (...args: any[]) => resolve(args as T))
+  );
+
+const reaches = (client: GenAILiveClient, state: SessionStatus["state"]) =>
+  new Promise<void>((resolve) => {
+    const onStatus = (status: SessionStatus) => {
+      if (status.state === state) {
+        client.off("statuschange", onStatus);
+        resolve();
+      }
+    };
+    client.on("statuschange", onStatus);
+  });
+
+const logged = (client: GenAILiveClient, type: string) =>
+  new Promise<void>((resolve) => {
+    const onLog = (log: { type: string }) => {
+      if (log.type === type) {
+        client.off("log", onLog);
+        resolve();
+      }
+    };
+    client.on("log", onLog);
+  });
+
+describe("GenAILiveClient over WebSocketTransport", () => {
+  let server: FakeLiveServer;
+  let client: GenAILiveClient;
+
+  beforeEach(async () => {
+    server = new FakeLiveServer([
+      {
+        on: "clientContent",
+        text: "draw a cat",
+        reply: [
+          { message: fake.toolCall("generate_image", { prompt: "a cat" }) },
+        ],
+      },
+      {
+        on: "toolResponse",
+        name: "generate_image",
+        reply: [
+          { message: fake.interrupted() },
+          { delayMs: 10, message: fake.turnComplete() },
+        ],
+      },
+      {
+        on: "realtimeInput",
+        text: "hello",
+        reply: [{ message: fake.turnComplete() }],
+      },
+    ]);
+    const url = await server.listen();
+    client = new GenAILiveClient({
+      apiKey: "",
+      reconnect: false,
+      transport: new WebSocketTransport({ url }),
+    });
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.close();
+  });
+
+  it("sends the setup message and emits setupcomplete", async () => {
+    const setupComplete = once(client, "setupcomplete");
+    await client.connect("models/gemini-2.0-flash-exp", {
+      systemInstruction: "be nice",
+      responseModalities: [],
+    });
+    await setupComplete;
+
+    expect(server.received[0]).toEqual({
+      kind: "setup",
+      message: {
+        setup: expect.objectContaining({
+          model: "models/gemini-2.0-flash-exp",
+          systemInstruction: { role: "user", parts: [{ text: "be nice" }] },
+          generationConfig: { responseModalities: [] },
+        }),
+      },
+    });
+  });
+
+  it("round-trips a scripted tool call", async () => {
+    const setupComplete = once(client, "setupcomplete");
+    await client.connect("models/gemini-2.0-flash-exp", {});
+    await setupComplete;
+
+    const toolCall = once<[LiveServerToolCall]>(client, "toolcall");
+    client.send({ text: "please draw a cat" });
+    const [{ functionCalls }] = await toolCall;
+    expect(functionCalls).toEqual([
+      {
+        id: "call-generate_image",
+        name: "generate_image",
+        args: { prompt: "a cat" },
+      },
+    ]);
+
+    const interrupted = once(client, "interrupted");
+    const turnComplete = once(client, "turncomplete");
+    client.sendToolResponse({
+      functionResponses: [
+        {
+          id: "call-generate_image",
+          name: "generate_image",
+          response: { ok: true },
+        },
+      ],
+    });
+    await interrupted;
+    await turnComplete;
+
+    expect(server.received.map(({ kind }) => kind)).toEqual([
+      "setup",
+      "clientContent",
+      "toolResponse",
+    ]);
+  });
+
+  it("answers a scripted tool call with the registered tool", async () => {
+    const registry = new ToolRegistry([
+      {
+        declaration: {
+          name: "generate_image",
+          description: "draws a picture",
+          parameters: {
+            type: Type.OBJECT,
+            properties: { prompt: { type: Type.STRING } },
+            required: ["prompt"],
+          },
+        },
+        handler: async ({ prompt }) => ({ url: `${prompt}.png` }),
+      },
+    ]);
+    client.on("toolcall", async ({ functionCalls = [] }) => {
+      for (const { id, name = "", args = {} } of functionCalls) {
+        expect(registry.validate(name, args)).toEqual([]);
+        const output = await registry.run(name, args, toolContext({ id }));
+        client.sendToolResponse({
+          functionResponses: [{ id, name, response: { output } }],
+        });
+      }
+    });
+
+    const setupComplete = once(client, "setupcomplete");
+    await client.connect("models/gemini-2.0-flash-exp", {});
+    await setupComplete;
+
+    const turnComplete = once(client, "turncomplete");
+    client.send({ text: "please draw a cat" });
+    await turnComplete;
+
+    expect(server.received[2].message).toEqual({
+      toolResponse: {
+        functionResponses: [
+          {
+            id: "call-generate_image",
+            name: "generate_image",
+            response: { output: { url: "a cat.png" } },
+          },
+        ],
+      },
+    });
+  });
+
+  it("sends typed realtime streams and counts them", async () => {
+    const setupComplete = once(client, "setupcomplete");
+    await client.connect("models/gemini-2.0-flash-exp", {});
+    await setupComplete;
+
+    const turnComplete = once(client, "turncomplete");
+    client.sendAudio("AAAA");
+    client.sendVideoFrame("AAAAAA==");
+    client.endAudioStream();
+    client.sendRealtimeText("hello");
+    await turnComplete;
+
+    expect(server.received.slice(1).map(({ message }) => message)).toEqual([
+      {
+        realtimeInput: {
+          audio: { mimeType: "audio/pcm;rate=16000", data: "AAAA" },
+        },
+      },
+      {
+        realtimeInput: { video: { mimeType: "image/jpeg", data: "AAAAAA==" } },
+      },
+      { realtimeInput: { audioStreamEnd: true } },
+      { realtimeInput: { text: "hello" } },
+    ]);
+    expect(client.stats).toEqual({
+      audio: { chunks: 1, bytes: 3 },
+      video: { chunks: 1, bytes: 4 },
+      text: { chunks: 1, bytes: 5 },
+    });
+  });
+
+  describe("transcriptions", () => {
+    const transcribe = async () => {
+      const setupComplete = once(client, "setupcomplete");
+      await client.connect("models/gemini-2.0-flash-exp", {});
+      await setupComplete;
+      const turns: string[] = [];
+      client
+        .on("inputtranscription", ({ text, finished }) =>
+          turns.push(`in ${finished ? "done" : "partial"}: ${text}`)
+        )
+        .on("outputtranscription", ({ text, finished }) =>
+          turns.push(`out ${finished ? "done" : "partial"}: ${text}`)
+        );
+      return turns;
+    };
+
+    it("merges partial chunks into turns and finishes them at turn end", async () => {
+      const turns = await transcribe();
+      const turnComplete = once(client, "turncomplete");
+      server.push(fake.inputTranscription("Hel"));
+      server.push(fake.inputTranscription("lo there "));
+      server.push(fake.outputTranscription("Hi"));
+      server.push(fake.outputTranscription(", how are you?"));
+      server.push(fake.turnComplete());
+      await turnComplete;
+
+      expect(turns).toEqual([
+        "in partial: Hel",
+        "in partial: Hello there ",
+        // the model answering ends the user's turn
+        "in done: Hello there",
+        "out partial: Hi",
+        "out partial: Hi, how are you?",
+        "out done: Hi, how are you?",
+      ]);
+    });
+
+    it("finishes a turn on a finished chunk or an interruption", async () => {
+      const turns = await transcribe();
+      const turnComplete = once(client, "turncomplete");
+      server.push(fake.inputTranscription("stop", true));
+      server.push(fake.outputTranscription("Once upon"));
+      server.push(fake.interrupted());
+      server.push(fake.turnComplete());
+      await turnComplete;
+
+      expect(turns).toEqual([
+        "in done: stop",
+        "out partial: Once upon",
+        "out done: Once upon",
+      ]);
+    });
+  });
+
+  it("doesn't count or log chunks dropped while disconnected", () => {
+    const logs: string[] = [];
+    client.on("log", ({ type }) => logs.push(type));
+    client.sendAudio("AAAA");
+    client.sendRealtimeText("hello");
+
+    expect(client.stats).toEqual({
+      audio: { chunks: 0, bytes: 0 },
+      video: { chunks: 0, bytes: 0 },
+      text: { chunks: 0, bytes: 0 },
+    });
+    expect(logs).not.toContain("client.realtimeInput");
+  });
+
+  it("holds messages sent while connecting until setup completes", async () => {
+    const toolCall = once(client, "toolcall");
+    const connected = client.connect("models/gemini-2.0-flash-exp", {});
+    client.send({ text: "please draw a cat" });
+    client.sendAudio("AAAA");
+    await connected;
+    await toolCall;
+
+    expect(server.received.map(({ kind }) => kind)).toEqual([
+      "setup",
+      "clientContent",
+      "realtimeInput",
+    ]);
+  });
+
+  it("moves through the session states", async () => {
+    const states: string[] = [];
+    client.on("statuschange", ({ state }) => states.push(state));
+    const closed = once(client, "close");
+
+    const setupComplete = once(client, "setupcomplete");
+    await client.connect("models/gemini-2.0-flash-exp", {});
+    await setupComplete;
+    client.disconnect();
+    await closed;
+
+    expect(states).toEqual([
+      "connecting",
+      "setting-up",
+      "ready",
+      "closing",
+      "idle",
+    ]);
+  });
+
+  it("rejects and reports the reason when the session can't be opened", async () => {
+    const unreachable = new GenAILiveClient({
+      apiKey: "",
+      reconnect: false,
+      transport: new WebSocketTransport({ url: "ws://localhost:1" }),
+    });
+    unreachable.on("error", () => {});
+
+    await expect(
+      unreachable.connect("models/gemini-2.0-flash-exp", {})
+    ).rejects.toThrow("Could not connect to ws://localhost:1");
+    expect(unreachable.status).toEqual({
+      state: "failed",
+      reason: "Could not connect to ws://localhost:1",
+    });
+  });
+
+  it("rejects when the socket closes before it opens", async () => {
+    class ClosingWebSocket {
+      static OPEN = 1;
+      readyState = 0;
+      onclose: ((event: CloseEvent) => void) | null = null;
+      constructor() {
+        setTimeout(() => {
+          this.readyState = 3;
+          this.onclose?.(new CloseEvent("close"));
+        });
+      }
+    }
+    const transport = new WebSocketTransport({
+      url: "ws://localhost:1",
+      WebSocket: ClosingWebSocket as unknown as typeof WebSocket,
+    });
+    const onclose = jest.fn();
+
+    await expect(
+      transport.connect({
+        model: "models/gemini-2.0-flash-exp",
+        callbacks: { onmessage: () => {}, onclose },
+      })
+    ).rejects.toThrow("Could not connect to ws://localhost:1");
+    expect(onclose).toHaveBeenCalled();
+  });
+});
+
+describe("GenAILiveClient reconnecting over WebSocketTransport", () => {
+  let server: FakeLiveServer;
+  let client: GenAILiveClient;
+  let url: string;
+
+  const connect = async (options: Partial<LiveClientOptions>) => {
+    client = new GenAILiveClient({
+      apiKey: "",
+      transport: new WebSocketTransport({ url }),
+      ...options,
+    });
+    client.on("error", () => {});
+    const ready = reaches(client, "ready");
+    await client.connect("models/gemini-2.0-flash-exp", {});
+    await ready;
+  };
+
+  const resumable = async () => {
+    const updated = logged(client, "server.sessionResumptionUpdate");
+    server.push({
+      sessionResumptionUpdate: { newHandle: "handle-1", resumable: true },
+    });
+    await updated;
+  };
+
+  const handles = () =>
+    server.received
+      .filter(({ kind }) => kind === "setup")
+      .map(({ message }) => message.setup.sessionResumption);
+
+  beforeEach(async () => {
+    server = new FakeLiveServer();
+    url = await server.listen();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.close();
+  });
+
+  it("resumes a dropped session with the latest handle", async () => {
+    await connect({ reconnect: { initialDelayMs: 10 } });
+    await resumable();
+
+    const states: string[] = [];
+    client.on("statuschange", ({ state }) => states.push(state));
+    const resumed = reaches(client, "ready");
+    server.dropConnections();
+    await resumed;
+
+    expect(states).toEqual(["reconnecting", "setting-up", "ready"]);
+    expect(handles()).toEqual([{}, { handle: "handle-1" }]);
+  });
+
+  it("backs off exponentially and gives up after the last attempt", async () => {
+    await connect({
+      reconnect: { maxAttempts: 3, initialDelayMs: 10, maxDelayMs: 25 },
+    });
+    const attempts: Array<[number, number]> = [];
+    client.on("reconnecting", (attempt, delayMs) =>
+      attempts.push([attempt, delayMs])
+    );
+    const states: string[] = [];
+    client.on("statuschange", ({ state }) => states.push(state));
+    const closed = once(client, "close");
+
+    const droppedAt = Date.now();
+    // nothing is listening anymore, so every attempt fails
+    await server.close();
+    await closed;
+
+    expect(Date.now() - droppedAt).toBeGreaterThanOrEqual(10 + 20 + 25);
+    expect(attempts).toEqual([
+      [1, 10],
+      [2, 20],
+      [3, 25],
+    ]);
+    expect(states).toEqual([
+      "reconnecting",
+      "reconnecting",
+      "reconnecting",
+      "failed",
+    ]);
+    expect(client.status).toEqual({
+      state: "failed",
+      reason: "reconnect failed after 3 attempts",
+    });
+  });
+
+  it("hands over to a resumed session on goAway", async () => {
+    await connect({
+      reconnect: { initialDelayMs: 10 },
+      seamlessHandover: true,
+    });
+    await resumable();
+    const states: string[] = [];
+    client.on("statuschange", ({ state }) => states.push(state));
+
+    const resumed = once(client, "setupcomplete");
+    server.push({ goAway: { timeLeft: "10s" } });
+    await resumed;
+
+    expect(states).toEqual([]);
+    expect(client.status).toEqual({ state: "ready" });
+    expect(handles()).toEqual([{}, { handle: "handle-1" }]);
+  });
+
+  it("reconnects when the old session closes during a failed handover", async () => {
+    const sockets = new WebSocketTransport({ url });
+    let refuse = false;
+    await connect({
+      reconnect: { initialDelayMs: 10 },
+      seamlessHandover: true,
+      transport: {
+        connect: (params) => {
+          if (!refuse) {
+            return sockets.connect(params);
+          }
+          refuse = false;
+          // fail only once the old session is gone
+          return new Promise((_, reject) =>
+            setTimeout(() => reject(new Error("refused")), 50)
+          );
+        },
+      },
+    });
+    await resumable();
+    const states: string[] = [];
+    client.on("statuschange", ({ state }) => states.push(state));
+    client.on("goaway", () => server.dropConnections());
+
+    refuse = true;
+    const resumed = reaches(client, "ready");
+    server.push({ goAway: { timeLeft: "0s" } });
+    await resumed;
+
+    expect(states).toEqual(["reconnecting", "setting-up", "ready"]);
+    expect(handles()).toEqual([{}, { handle: "handle-1" }]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Content,
+  ContentListUnion,
+  ContentUnion,
+  LiveConnectConfig,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+  Part,
+} from "@google/genai";
+import { LiveTransport, LiveTransportSession } from "./live-transport";
+
+export type WebSocketTransportOptions = {
+  // full websocket url, e.g. ws://localhost:9081 for the fake live server
+  url: string;
+  // override for environments without a global WebSocket
+  WebSocket?: typeof WebSocket;
+};
+
+const isPart = (value: unknown): value is Part =>
+  typeof value === "object" && value !== null && !("parts" in value);
+
+function toContent(content: ContentUnion): Content {
+  if (typeof content === "string") {
+    return { role: "user", parts: [{ text: content }] };
+  }
+  if (Array.isArray(content)) {
+    return {
+      role: "user",
+      parts: content.map((p) => (typeof p === "string" ? { text: p } : p)),
+    };
+  }
+  if (isPart(content)) {
+    return { role: "user", parts: [content] };
+  }
+  return content;
+}
+
+function toTurns(turns?: ContentListUnion): Content[] {
+  if (!turns) {
+    return [];
+  }
+  // a flat list of parts is a single turn
+  if (
+    Array.isArray(turns) &&
+    turns.every((t) => typeof t === "string" || isPart(t))
+  ) {
+    return [toContent(turns as Part[])];
+  }
+  return (Array.isArray(turns) ? turns : [turns]).map((t) =>
+    toContent(t as ContentUnion)
+  );
+}
+
+const generationConfigKeys = [
+  "responseModalities",
+  "temperature",
+  "topP",
+  "topK",
+  "maxOutputTokens",
+  "mediaResolution",
+  "seed",
+  "speechConfig",
+] as const;
+
+/**
+ * builds the BidiGenerateContent `setup` message, mirroring what the SDK sends
+ */
+export function toSetupMessage(model: string, config: LiveConnectConfig = {}) {
+  const generationConfig: Record<string, unknown> = {
+    ...config.generationConfig,
+  };
+  const setup: Record<string, unknown> = {
+    model: model.startsWith("models/") ? model : `models/${model}`,
+  };
+  Object.entries(config).forEach(([key, value]) => {
+    if (value === undefined || key === "generationConfig") {
+      return;
+    }
+    if ((generationConfigKeys as readonly string[]).includes(key)) {
+      generationConfig[key] = value;
+    } else if (key === "systemInstruction") {
+      setup.systemInstruction = toContent(value as ContentUnion);
+    } else {
+      setup[key] = value;
+    }
+  });
+  if (Object.keys(generationConfig).length) {
+    setup.generationConfig = generationConfig;
+  }
+  return { setup };
+}
+
+/**
+ * Speaks the BidiGenerateContent JSON protocol over a plain websocket. Used to
+ * run the app against a local stand-in server instead of the Live API.
+ */
+export class WebSocketTransport implements LiveTransport {
+  constructor(private options: WebSocketTransportOptions) {}
+
+  connect({
+    model,
+    config,
+    callbacks,
+  }: LiveConnectParameters): Promise<LiveTransportSession> {
+    const WebSocketImpl = this.options.WebSocket || WebSocket;
+    const ws = new WebSocketImpl(this.options.url);
+    const send = (message: object) => ws.send(JSON.stringify(message));
+
+    const session: LiveTransportSession = {
+      sendClientContent({
+        turns,
+        turnComplete = true,
+      }: LiveSendClientContentParameters) {
+        send({ clientContent: { turns: toTurns(turns), turnComplete } });
+      },
+      sendRealtimeInput({ media, ...input }: LiveSendRealtimeInputParameters) {
+        send({
+          realtimeInput: media ? { ...input, mediaChunks: [media] } : input,
+        });
+      },
+      sendToolResponse({ functionResponses }: LiveSendToolResponseParameters) {
+        send({
+          toolResponse: {
+            functionResponses: Array.isArray(functionResponses)
+              ? functionResponses
+              : [functionResponses],
+          },
+        });
+      },
+      close() {
+        ws.close();
+      },
+    };
+
+    return new Promise((resolve, reject) => {
+      const failed = () =>
+        reject(new Error(`Could not connect to ${this.options.url}`));
+      ws.onopen = () => {
+        send(toSetupMessage(model, config));
+        callbacks.onopen?.();
+        resolve(session);
+      };
+      ws.onmessage = async (event: MessageEvent) => {
+        const data =
+          typeof event.data === "string" ? event.data : await event.data.text();
+        callbacks.onmessage(JSON.parse(data) as LiveServerMessage);
+      };
+      ws.onerror = (event: Event) => {
+        callbacks.onerror?.(event as ErrorEvent);
+        if (ws.readyState !== WebSocketImpl.OPEN) {
+          failed();
+        }
+      };
+      ws.onclose = (event: CloseEvent) => {
+        // not every refused connection fires an error event first
+        failed();
+        callbacks.onclose?.(event);
+      };
+    });
+  }
+}
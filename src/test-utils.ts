@@ -0,0 +1,47 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { ToolContext } from "./lib/tool-registry";
+
+/**
+ * starts an http server on a free port and resolves with its url
+ */
+export const listen = (server: Server) =>
+  new Promise<string>((resolve) =>
+    server.listen(0, () =>
+      resolve(`http://localhost:${(server.address() as AddressInfo).port}`)
+    )
+  );
+
+export const close = (server: Server) =>
+  new Promise((resolve) => server.close(resolve));
+
+/**
+ * the context a tool handler gets for a call, with nothing to report to
+ */
+export const toolContext = (
+  overrides: Partial<ToolContext> = {}
+): ToolContext => ({
+  id: "call-1",
+  requestId: "request-1",
+  signal: new AbortController().signal,
+  mediaClient: null,
+  notify: () => {},
+  inspect: () => {},
+  ...overrides,
+});
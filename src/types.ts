@@ -15,16 +15,62 @@
  */
 
 import {
+  FunctionDeclaration,
+  FunctionResponse,
   GoogleGenAIOptions,
   LiveClientToolResponse,
   LiveServerMessage,
   Part,
 } from "@google/genai";
+import { LiveTransport } from "./lib/live-transport";
+import { OutboundQueueOptions } from "./lib/outbound-queue";
+import { TokenProvider } from "./lib/token-provider";
 
 /**
- * the options to initiate the client, ensure apiKey is required
+ * the options to initiate the client, either an apiKey or a tokenProvider is required
  */
-export type LiveClientOptions = GoogleGenAIOptions & { apiKey: string };
+export type LiveClientOptions = GoogleGenAIOptions & {
+  apiKey?: string;
+  // fetches ephemeral tokens so the api key stays on the server
+  tokenProvider?: TokenProvider;
+  // reconnect behaviour when the websocket drops, `false` disables it
+  reconnect?: ReconnectOptions | false;
+  // open a replacement session as soon as the server sends `goAway`
+  seamlessHandover?: boolean;
+  // how sessions are opened, defaults to the GenAI SDK
+  transport?: LiveTransport;
+  // how messages sent before setupComplete are held, per message kind
+  outboundQueue?: OutboundQueueOptions;
+};
+
+/**
+ * exponential backoff used when resuming a dropped live session
+ */
+export type ReconnectOptions = {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+/**
+ * function calling fields of the Live API the SDK doesn't type yet, they are
+ * sent to the server as they are
+ */
+export type FunctionBehavior = "BLOCKING" | "NON_BLOCKING";
+
+// when the model hears about the late result of a non-blocking call
+export type FunctionResponseScheduling = "SILENT" | "WHEN_IDLE" | "INTERRUPT";
+
+export type LiveFunctionDeclaration = FunctionDeclaration & {
+  // non-blocking calls let the model carry on while they run
+  behavior?: FunctionBehavior;
+};
+
+export type LiveFunctionResponse = FunctionResponse & {
+  // more responses to the same call will follow
+  willContinue?: boolean;
+  scheduling?: FunctionResponseScheduling;
+};
 
 /** log types */
 export type StreamingLog = {
@@ -35,7 +81,70 @@ export type StreamingLog = {
     | string
     | ClientContentLog
     | Omit<LiveServerMessage, "text" | "data">
-    | LiveClientToolResponse;
+    | LiveClientToolResponse
+    | ToolValidationLog;
+};
+
+/**
+ * a transcription merged from the partial chunks the server streams,
+ * `finished` is set once the speaker's turn is over
+ */
+export type TranscriptionTurn = {
+  text: string;
+  finished: boolean;
+};
+
+/**
+ * where a live session is in its lifecycle:
+ * idle -> connecting -> setting-up -> ready -> closing -> idle, with
+ * reconnecting while a dropped session is resumed and failed when it gave up
+ */
+export type SessionStatus =
+  | { state: "idle" }
+  | { state: "connecting" }
+  | { state: "setting-up" }
+  | { state: "ready" }
+  | { state: "reconnecting"; attempt: number }
+  | { state: "closing" }
+  | { state: "failed"; reason: string };
+
+export type SessionState = SessionStatus["state"];
+
+/**
+ * what a latency measurement covers:
+ * - "speech-to-audio": the user stopped speaking until the first model audio
+ * - "audio-to-playback": a first audio chunk arrived until it is audible
+ * - "tool-response": a tool call arrived until it was answered
+ */
+export type LatencyMetric =
+  | "speech-to-audio"
+  | "audio-to-playback"
+  | "tool-response";
+
+export type RealtimeStream = "audio" | "video" | "text";
+
+/**
+ * what a client has sent on one realtime input stream since it connected,
+ * `bytes` counts decoded media bytes and UTF-8 text bytes
+ */
+export type RealtimeStreamStats = {
+  chunks: number;
+  bytes: number;
+};
+
+export type RealtimeStats = Record<RealtimeStream, RealtimeStreamStats>;
+
+/**
+ * a function call that was refused because its arguments don't match the
+ * declaration
+ */
+export type ToolValidationLog = {
+  toolValidation: {
+    id: string;
+    name: string;
+    args: unknown;
+    violations: string[];
+  };
 };
 
 export type ClientContentLog = {